@@ -0,0 +1,52 @@
+/**
+ * Runtime selection of the ProcessBackend used by all lookups and kills
+ * @module backend
+ */
+
+import { clearCache } from './cache';
+import { log } from './logger';
+import { systemBackend } from './system-backend';
+import type { ProcessBackend } from './types';
+
+/**
+ * Currently active backend
+ * Defaults to the system backend for the current platform
+ */
+let activeBackend: ProcessBackend = systemBackend;
+
+/**
+ * Get the backend currently used by kproc
+ *
+ * @returns The active ProcessBackend
+ */
+export const getBackend = (): ProcessBackend => activeBackend;
+
+/**
+ * Replace the backend used by every lookup and kill function
+ *
+ * The lookup cache is cleared so results from the previous backend
+ * never leak into the new one.
+ *
+ * @param backend - Backend to use, or null to restore the system backend
+ *
+ * @example
+ * ```typescript
+ * import { createMemoryBackend, killByPort, setBackend } from 'kproc';
+ *
+ * const backend = createMemoryBackend({
+ *   processes: [{ pid: 100, name: 'node', command: 'node server.js' }],
+ *   sockets: [{ pid: 100, port: 3000, protocol: 'tcp', state: 'LISTEN' }],
+ * });
+ * setBackend(backend);
+ *
+ * await killByPort(3000);
+ * console.log(backend.signals); // [{ pid: 100, signal: 'SIGTERM' }]
+ *
+ * setBackend(null); // back to the real system
+ * ```
+ */
+export const setBackend = (backend: ProcessBackend | null): void => {
+    activeBackend = backend || systemBackend;
+    clearCache();
+    log.debug(`Using process backend: ${activeBackend.name}`);
+};
@@ -1,9 +1,13 @@
 /**
  * Smart caching system to reduce redundant system calls
+ * Bounded (least recently used entries are evicted first), with shared
+ * in-flight fetches and invalidation when a process is signalled
  * @module cache
  */
 
+import { AbortError, InvalidInputError } from './errors';
 import { log } from './logger';
+import type { CacheOptions, CacheStats } from './types';
 
 /**
  * Cache entry structure with timestamp for TTL checking
@@ -17,18 +21,78 @@ interface CacheEntry<T> {
 }
 
 /**
- * In-memory cache storage
+ * In-memory cache storage, in least-recently-used order
  * Key format examples:
- * - "port:3000" - PIDs on port 3000
+ * - "sockets" - socket table snapshot
  * - "name:node:false" - PIDs matching "node" (non-regex)
  */
 const cache = new Map<string, CacheEntry<any>>();
 
 /**
- * Default cache time-to-live: 1 second
- * Process lists change infrequently, so short TTL is safe
+ * Fetches currently running, shared by concurrent misses on the same key
  */
-const DEFAULT_CACHE_TTL_MS = 1000;
+const inFlight = new Map<string, Promise<any>>();
+
+/**
+ * Current cache configuration
+ * Changed with configureCache()
+ */
+let config: Required<CacheOptions> = {
+    ttlMs: 1000,
+    maxEntries: 100,
+    enabled: true,
+};
+
+/**
+ * Counters reported by getCacheStats()
+ */
+const counters = { hits: 0, misses: 0, deduplicated: 0, evictions: 0 };
+
+/**
+ * Drop least recently used entries until the cache fits maxEntries
+ * @internal
+ */
+const evict = (): void => {
+    for (const key of cache.keys()) {
+        if (cache.size <= config.maxEntries) break;
+        cache.delete(key);
+        counters.evictions++;
+        log.debug(`Evicted cache key: ${key}`);
+    }
+};
+
+/**
+ * Configure the lookup cache
+ * 
+ * Omitted options keep their current value. Disabling the cache clears it;
+ * lowering maxEntries evicts the least recently used entries.
+ * 
+ * @param options - TTL, maximum number of entries and on/off switch
+ * @throws {InvalidInputError} If ttlMs or maxEntries is invalid
+ * 
+ * @example
+ * ```typescript
+ * // Longer TTL for a CLI that runs many lookups at once
+ * configureCache({ ttlMs: 5000, maxEntries: 500 });
+ * 
+ * // Always hit the system (e.g. in a watch loop)
+ * configureCache({ enabled: false });
+ * ```
+ */
+export const configureCache = (options: CacheOptions): void => {
+    const { ttlMs = config.ttlMs, maxEntries = config.maxEntries, enabled = config.enabled } = options;
+
+    if (!Number.isFinite(ttlMs) || ttlMs < 0) {
+        throw new InvalidInputError(`Invalid cache ttlMs: ${ttlMs}. Must be a non-negative number.`);
+    }
+    if (maxEntries !== Infinity && (!Number.isInteger(maxEntries) || maxEntries < 1)) {
+        throw new InvalidInputError(`Invalid cache maxEntries: ${maxEntries}. Must be a positive integer.`);
+    }
+
+    config = { ttlMs, maxEntries, enabled };
+    if (!enabled) clearCache();
+    evict();
+};
 
 /**
  * Get cached data or fetch fresh data if cache miss/expired
@@ -36,60 +100,94 @@ const DEFAULT_CACHE_TTL_MS = 1000;
  * This function implements a cache-aside pattern:
  * 1. Check if data exists in cache and is still valid (not expired)
  * 2. If yes, return cached data (fast path)
- * 3. If no, call fetcher function to get fresh data
- * 4. Store fresh data in cache with current timestamp
- * 5. Return fresh data
+ * 3. If a fetch for the same key is already running, share its promise
+ * 4. If no, call fetcher function to get fresh data
+ * 5. Store fresh data in cache with current timestamp (successes only)
+ * 6. Return fresh data
+ * 
+ * A shared fetch that was aborted by the caller who started it is retried
+ * with this caller's fetcher. With the cache disabled, fetcher is always called.
  * 
  * @template T - Type of data being cached
  * @param key - Unique cache key for this data
  * @param fetcher - Async function that fetches the data if cache miss
- * @param ttlMs - Time-to-live in milliseconds (default: 1000ms)
+ * @param ttlMs - Time-to-live in milliseconds (default: configured ttlMs, 1000ms)
  * @returns The cached or freshly fetched data
  * 
  * @example
  * ```typescript
  * // First call - cache miss, calls fetcher
- * const pids1 = await getCached('port:3000', () => findPidsByPortImpl(3000));
+ * const pids1 = await getCached('name:node:false', () => findPidsByNameImpl('node'));
  * 
- * // Second call within 1 second - cache hit, instant return
- * const pids2 = await getCached('port:3000', () => findPidsByPortImpl(3000));
+ * // Second call within the TTL (default 1s) - cache hit, instant return
+ * const pids2 = await getCached('name:node:false', () => findPidsByNameImpl('node'));
  * 
  * // Custom TTL (5 seconds)
- * const pids3 = await getCached('port:3000', fetcher, 5000);
+ * const pids3 = await getCached('name:node:false', fetcher, 5000);
  * ```
  */
 export const getCached = async <T>(
     key: string,
     fetcher: () => Promise<T>,
-    ttlMs: number = DEFAULT_CACHE_TTL_MS
+    ttlMs: number = config.ttlMs
 ): Promise<T> => {
+    if (!config.enabled) return fetcher();
+
     const now = Date.now();
     const cached = cache.get(key);
 
     // Cache hit: entry exists and hasn't expired
     if (cached && (now - cached.timestamp) < ttlMs) {
+        counters.hits++;
         log.debug(`Cache hit for key: ${key}`);
+
+        // Move to the most recently used end
+        cache.delete(key);
+        cache.set(key, cached);
         return cached.data as T;
     }
 
+    // Same key already being fetched: wait for that result
+    const pending = inFlight.get(key);
+    if (pending) {
+        counters.deduplicated++;
+        log.debug(`Joining in-flight fetch for key: ${key}`);
+        return pending.catch((error) => {
+            if (error instanceof AbortError) return getCached(key, fetcher, ttlMs);
+            throw error;
+        });
+    }
+
     // Cache miss: fetch fresh data
+    counters.misses++;
     log.debug(`Cache miss for key: ${key}, fetching...`);
-    const data = await fetcher();
 
-    // Store in cache with current timestamp
-    cache.set(key, { data, timestamp: now });
+    const promise = fetcher();
+    inFlight.set(key, promise);
+    try {
+        const data = await promise;
 
-    return data;
+        // Invalidated while fetching: the data may already be stale
+        if (inFlight.get(key) === promise) {
+            cache.delete(key);
+            cache.set(key, { data, timestamp: now });
+            evict();
+        }
+        return data;
+    } finally {
+        if (inFlight.get(key) === promise) inFlight.delete(key);
+    }
 };
 
 /**
  * Manually clear the entire cache
  * 
  * Use this when you need to force fresh lookups, for example:
- * - After killing processes, to ensure next lookup is fresh
  * - In testing scenarios
  * - When you know process state has changed
  * 
+ * Kills invalidate the entries mentioning the killed PID automatically.
+ * 
  * @example
  * ```typescript
  * import { clearCache, findPidsByPort } from 'kproc';
@@ -108,21 +206,23 @@ export const clearCache = (): void => {
     const size = cache.size;
     log.debug(`Clearing cache (${size} entries)`);
     cache.clear();
+    inFlight.clear();
 };
 
 /**
  * Get current cache statistics for monitoring/debugging
  * 
- * @returns Object with cache statistics
+ * @returns Size, oldest entry age, hit/miss counters and configuration
  * 
  * @example
  * ```typescript
  * const stats = getCacheStats();
- * console.log(`Cache has ${stats.size} entries`);
+ * console.log(`Cache has ${stats.size}/${stats.maxEntries} entries`);
+ * console.log(`Hit rate: ${stats.hits / (stats.hits + stats.misses)}`);
  * console.log(`Oldest entry: ${stats.oldestAge}ms ago`);
  * ```
  */
-export const getCacheStats = (): { size: number; oldestAge: number | null } => {
+export const getCacheStats = (): CacheStats => {
     const now = Date.now();
     let oldestAge: number | null = null;
 
@@ -136,6 +236,9 @@ export const getCacheStats = (): { size: number; oldestAge: number | null } => {
     return {
         size: cache.size,
         oldestAge,
+        ...counters,
+        inFlight: inFlight.size,
+        ...config,
     };
 };
 
@@ -147,12 +250,12 @@ export const getCacheStats = (): { size: number; oldestAge: number | null } => {
  * 
  * @example
  * ```typescript
- * // Invalidate specific port cache after killing process
- * await killByPort(3000);
- * invalidateCache('port:3000');
+ * // Force the next name lookup to hit the system
+ * invalidateCache('name:node:false');
  * ```
  */
 export const invalidateCache = (key: string): boolean => {
+    inFlight.delete(key);
     const deleted = cache.delete(key);
     if (deleted) {
         log.debug(`Invalidated cache key: ${key}`);
@@ -160,3 +263,33 @@ export const invalidateCache = (key: string): boolean => {
     return deleted;
 };
 
+/**
+ * Check whether cached data mentions a PID
+ * Handles PID lists and lists of objects with a `pid` field (sockets)
+ * @internal
+ */
+const mentionsPid = (data: unknown, pid: number): boolean =>
+    Array.isArray(data) && data.some(item =>
+        item === pid || (typeof item === 'object' && item !== null && (item as { pid?: number }).pid === pid)
+    );
+
+/**
+ * Forget everything cached about a process that was just signalled
+ * 
+ * Removes every entry mentioning the PID, and drops in-flight fetches
+ * (they may have started before the signal), so the next lookup after a
+ * kill never returns the dead PID.
+ * 
+ * @param pid - Process ID that was signalled
+ * 
+ * @internal
+ */
+export const invalidateProcess = (pid: number): void => {
+    inFlight.clear();
+    for (const [key, entry] of cache) {
+        if (mentionsPid(entry.data, pid)) {
+            cache.delete(key);
+            log.debug(`Invalidated cache key ${key} after signalling PID ${pid}`);
+        }
+    }
+};
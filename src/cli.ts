@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+/**
+ * kproc command-line interface
+ * Thin wrapper that maps CLI flags onto KillOptions / FindByNameOptions
+ * @module cli
+ *
+ * @example
+ * ```bash
+ * kproc port 3000 --tree --verify
+ * kproc name vite --regex
+ * kproc user ci node
+ * kproc cwd ~/code/monorepo
+ * kproc file node_modules --recursive
+ * kproc pid 1234 --signal SIGINT
+ * kproc range 3000-3010
+ * kproc info 1234
+ * ```
+ */
+
+import { parseArgs } from 'util';
+import { version as VERSION } from '../package.json';
+import { InvalidInputError, ProcessNotFoundError } from './errors';
+import { killByCwd, killByFile, killByName, killByPid, killByPids, killByPort, killByPortRange, killByPorts, killByUser } from './kill';
+import { setDebug, setLogger } from './logger';
+import { getProcessInfo, isProcessAlive } from './lookup';
+import type { KillOptions, KillResult, LogRecord, PortQueryOptions, SignalStep, UnixSignal } from './types';
+import { validatePortQuery } from './utils';
+
+
+/**
+ * Process exit codes
+ * - SUCCESS: every targeted process was killed (or info was printed)
+ * - FAILURE: every kill failed, or an unexpected error occurred
+ * - PARTIAL: some kills succeeded and some failed
+ * - NOT_FOUND: no process matched the PID/port/pattern
+ * - USAGE: invalid command, flag or argument
+ */
+export const EXIT_CODES = {
+    SUCCESS: 0,
+    FAILURE: 1,
+    PARTIAL: 2,
+    NOT_FOUND: 3,
+    USAGE: 64,
+} as const;
+
+const USAGE = `Usage: kproc <command> [targets...] [options]
+
+Commands:
+  pid <pid...>          Kill one or more processes by PID
+  port <port...>        Kill processes bound to one or more ports
+  range <start-end>     Kill processes bound to ports in a range
+  name <pattern>        Kill processes whose name or command matches
+  user <user> [pattern] Kill processes owned by a user (name or uid)
+  cwd <dir>             Kill processes running inside a directory
+  file <path>           Kill processes holding a file or directory open
+  info <pid>            Show information about a process
+
+Options:
+  -s, --signal <sig>    Signal to send on Unix (name or number, default SIGTERM)
+  -t, --tree            Kill the entire process tree
+      --freeze          With --tree: SIGSTOP the tree first, then kill leaves first
+  -g, --group <scope>   Signal the target's process group (pgid) or session
+  -v, --verify          Verify the process is dead after killing
+      --verify-timeout <ms>
+                        How long verification waits for the exit (default 2000)
+  -f, --force           Escalate to SIGKILL if the process survives
+      --escalation-delay <ms>
+                        Delay before escalating to SIGKILL (default 3000)
+      --signal-sequence <list>
+                        Signal ladder, e.g. SIGINT:5000,SIGTERM:10000,SIGKILL
+  -r, --retries <n>     Retry failed kills up to n times
+  -c, --concurrency <n> Processes killed at once (default 8)
+      --timeout <ms>    Timeout for each system command
+      --regex           Treat the name/user pattern as a regular expression
+  -R, --recursive       File command: include everything below a directory
+      --protocol <p>    Port commands: tcp or udp (default tcp)
+      --state <s>       Port commands: listen, established or any (default listen)
+      --allow-protected Kill protected processes (init, kproc's own ancestors)
+      --allow-root      User command: allow killing processes owned by root
+  -n, --dry-run         Show what would be killed without killing
+      --json            Print results as JSON
+  -d, --debug           Enable debug logging
+  -h, --help            Show this help
+      --version         Show version
+
+Exit codes:
+  0  success    1  failure    2  partial failure    3  not found    64  usage error`;
+
+/**
+ * Parse a numeric CLI argument
+ * @throws {InvalidInputError} If value is not a non-negative integer
+ */
+const toInt = (value: string, label: string): number => {
+    const n = Number(value);
+    if (!/^\d+$/.test(value) || !Number.isSafeInteger(n)) {
+        throw new InvalidInputError(`Invalid ${label}: ${value}`);
+    }
+    return n;
+};
+
+/**
+ * Parse a signal argument: numeric strings become signal numbers,
+ * names are upper-cased and prefixed with SIG if missing
+ */
+const toSignal = (value: string): UnixSignal => {
+    if (/^\d+$/.test(value)) return Number(value);
+    const upper = value.toUpperCase();
+    return (upper.startsWith('SIG') ? upper : `SIG${upper}`) as UnixSignal;
+};
+
+/**
+ * Parse a signal ladder like "SIGINT:5000,SIGTERM:10000,SIGKILL"
+ * A step without a wait time waits 0 ms (the last step still polls for the exit)
+ * @throws {InvalidInputError} If a wait time is not a non-negative integer
+ */
+const toSignalSequence = (value: string): SignalStep[] =>
+    value.split(',').map(part => {
+        const [sig, waitMs = '0'] = part.trim().split(':');
+        return { signal: toSignal(sig), waitMs: toInt(waitMs, 'signal sequence wait') };
+    });
+
+/**
+ * Parse a port range argument like "3000-3010"
+ * @throws {InvalidInputError} If the range is malformed
+ */
+const toRange = (value: string): [number, number] => {
+    const match = value.match(/^(\d+)-(\d+)$/);
+    if (!match) {
+        throw new InvalidInputError(`Invalid port range: ${value}. Expected <start>-<end>`);
+    }
+    return [Number(match[1]), Number(match[2])];
+};
+
+/**
+ * Print kill results and compute the matching exit code
+ */
+const report = (results: KillResult[], json: boolean): number => {
+    if (json) {
+        console.log(JSON.stringify(results, null, 2));
+    } else {
+        for (const r of results) {
+            if (r.success) {
+                const details = [
+                    r.signal,
+                    r.sequenceStep !== undefined ? `step ${r.sequenceStep + 1}` : undefined,
+                    r.verified ? 'verified' : undefined,
+                ].filter(Boolean).join(', ');
+                console.log(`✓ PID ${r.pid} killed${details ? ` (${details})` : ''}`);
+            } else if (r.skipped) {
+                console.log(`- PID ${r.pid} skipped: ${r.error}`);
+            } else {
+                console.log(`✗ PID ${r.pid} failed: ${r.error || 'Unknown error'}`);
+            }
+            for (const child of r.children || []) {
+                if (!child.success) console.log(`  ${child.skipped ? '-' : '✗'} child PID ${child.pid}: ${child.error}`);
+            }
+        }
+    }
+
+    const failed = results.filter(r => !r.success).length;
+    if (failed === 0) return EXIT_CODES.SUCCESS;
+    return failed === results.length ? EXIT_CODES.FAILURE : EXIT_CODES.PARTIAL;
+};
+
+/**
+ * Log sink for the CLI: library log lines go to stderr so that stdout only
+ * carries results (and `--json` output stays parseable)
+ */
+const writeLogToStderr = (record: LogRecord): void => {
+    process.stderr.write(`[kproc:${record.level}] ${record.message}\n`);
+};
+
+/**
+ * Run the CLI with the given arguments (without node and script path)
+ *
+ * @param argv - Command-line arguments
+ * @returns Process exit code (see EXIT_CODES)
+ */
+export const run = async (argv: string[]): Promise<number> => {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                signal: { type: 'string', short: 's' },
+                tree: { type: 'boolean', short: 't' },
+                freeze: { type: 'boolean' },
+                group: { type: 'string', short: 'g' },
+                verify: { type: 'boolean', short: 'v' },
+                'verify-timeout': { type: 'string' },
+                force: { type: 'boolean', short: 'f' },
+                'escalation-delay': { type: 'string' },
+                'signal-sequence': { type: 'string' },
+                retries: { type: 'string', short: 'r' },
+                concurrency: { type: 'string', short: 'c' },
+                timeout: { type: 'string' },
+                regex: { type: 'boolean' },
+                recursive: { type: 'boolean', short: 'R' },
+                protocol: { type: 'string' },
+                state: { type: 'string' },
+                'allow-protected': { type: 'boolean' },
+                'allow-root': { type: 'boolean' },
+                'dry-run': { type: 'boolean', short: 'n' },
+                json: { type: 'boolean' },
+                debug: { type: 'boolean', short: 'd' },
+                help: { type: 'boolean', short: 'h' },
+                version: { type: 'boolean' },
+            },
+        });
+    } catch (error) {
+        console.error(`kproc: ${(error as Error).message}`);
+        console.error(USAGE);
+        return EXIT_CODES.USAGE;
+    }
+
+    const { values, positionals } = parsed;
+
+    if (values.version) {
+        console.log(VERSION);
+        return EXIT_CODES.SUCCESS;
+    }
+
+    const [command, ...targets] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return values.help ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE;
+    }
+
+    const json = values.json === true;
+
+    // One command per process, so logging config can be global (covers `info` too)
+    setLogger({ sink: writeLogToStderr });
+    if (values.debug) setDebug(true);
+
+    try {
+        const options: KillOptions = {
+            signal: values.signal !== undefined ? toSignal(values.signal) : undefined,
+            tree: values.tree,
+            treeMode: values.freeze ? 'freeze' : undefined,
+            group: values.group as KillOptions['group'],
+            verify: values.verify,
+            verifyTimeoutMs: values['verify-timeout'] !== undefined
+                ? toInt(values['verify-timeout'], 'verify timeout')
+                : undefined,
+            forceAfterTimeout: values.force,
+            escalationDelayMs: values['escalation-delay'] !== undefined
+                ? toInt(values['escalation-delay'], 'escalation delay')
+                : undefined,
+            signalSequence: values['signal-sequence'] !== undefined
+                ? toSignalSequence(values['signal-sequence'])
+                : undefined,
+            retries: values.retries !== undefined ? toInt(values.retries, 'retries') : undefined,
+            concurrency: values.concurrency !== undefined ? toInt(values.concurrency, 'concurrency') : undefined,
+            timeoutMs: values.timeout !== undefined ? toInt(values.timeout, 'timeout') : undefined,
+            dryRun: values['dry-run'],
+            force: values['allow-protected'],
+        };
+
+        const portQuery = {
+            protocol: values.protocol,
+            state: values.state,
+        } as PortQueryOptions;
+        validatePortQuery(portQuery);
+
+        if (targets.length === 0) {
+            throw new InvalidInputError(`Missing target for command: ${command}`);
+        }
+
+        switch (command) {
+            case 'pid': {
+                const pids = targets.map(t => toInt(t, 'PID'));
+
+                // killByPid treats a missing PID as already dead (success); the CLI reports it as not found
+                const alive = await Promise.all(pids.map(pid => isProcessAlive(pid)));
+                const found = pids.filter((_, i) => alive[i]);
+                const missing = pids.filter((_, i) => !alive[i]);
+                if (found.length === 0) {
+                    throw new ProcessNotFoundError(`No such process: ${missing.join(', ')}`);
+                }
+
+                const results = found.length === 1
+                    ? [await killByPid(found[0], options)]
+                    : await killByPids(found, options);
+                return report([
+                    ...results,
+                    ...missing.map(pid => ({ pid, success: false, error: `Process ${pid} not found` })),
+                ], json);
+            }
+            case 'port': {
+                const ports = targets.map(t => toInt(t, 'port'));
+                const results = ports.length === 1
+                    ? [await killByPort(ports[0], { ...options, ...portQuery })]
+                    : await killByPorts(ports, { ...options, ...portQuery });
+                return report(results, json);
+            }
+            case 'range': {
+                const [start, end] = toRange(targets[0]);
+                return report(await killByPortRange(start, end, { ...options, ...portQuery }), json);
+            }
+            case 'name': {
+                const results = await killByName(targets[0], { ...options, useRegex: values.regex });
+                return report(results, json);
+            }
+            case 'user': {
+                const [user, pattern] = targets;
+                const results = await killByUser(/^\d+$/.test(user) ? Number(user) : user, {
+                    ...options,
+                    pattern,
+                    useRegex: values.regex,
+                    allowRoot: values['allow-root'],
+                });
+                return report(results, json);
+            }
+            case 'cwd':
+                return report(await killByCwd(targets[0], options), json);
+            case 'file':
+                return report(await killByFile(targets[0], { ...options, recursive: values.recursive }), json);
+            case 'info': {
+                const info = await getProcessInfo(toInt(targets[0], 'PID'), {
+                    cwd: true,
+                    exe: true,
+                    timeoutMs: options.timeoutMs,
+                });
+                if (json) {
+                    console.log(JSON.stringify(info, null, 2));
+                } else {
+                    for (const [key, value] of Object.entries(info)) {
+                        if (value === undefined) continue;
+                        console.log(`${key}: ${Array.isArray(value) ? value.join(', ') : value}`);
+                    }
+                }
+                return EXIT_CODES.SUCCESS;
+            }
+            default:
+                throw new InvalidInputError(`Unknown command: ${command}`);
+        }
+    } catch (error) {
+        console.error(`kproc: ${(error as Error).message}`);
+
+        if (error instanceof ProcessNotFoundError) return EXIT_CODES.NOT_FOUND;
+        if (error instanceof InvalidInputError) {
+            console.error(USAGE);
+            return EXIT_CODES.USAGE;
+        }
+        return EXIT_CODES.FAILURE;
+    }
+};
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
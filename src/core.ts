@@ -1,25 +1,28 @@
 /**
  * Core process tree functions
- * Functions for finding child and descendant processes
+ * Functions for finding child and descendant processes and building trees
+ * from a single process snapshot
  * @module core
  */
 
-import { CommandExecutionError, InvalidInputError, ProcessNotFoundError } from './errors';
-import { log } from './logger';
-import { execText, isWindows, parseWindowsPsJson } from './utils';
+import { AbortError, CommandExecutionError, InvalidInputError, ProcessNotFoundError } from './errors';
+import { log, withLogContext } from './logger';
+import { listProcesses } from './lookup';
+import type { ProcessInfo, ProcessTreeNode } from './types';
 
 /**
  * Find direct child processes of a parent PID (one level only)
  * 
- * Uses platform-specific commands to query parent-child relationships:
- * - Windows: PowerShell Get-CimInstance filtering by ParentProcessId
- * - Unix: ps --ppid to get children of specific parent
+ * Filters the active backend's process list by parent PID:
+ * - Linux: /proc/<pid>/stat (falls back to ps if /proc is unreadable)
+ * - Windows: PowerShell Get-CimInstance Win32_Process
+ * - Unix: ps -A with pid and ppid
  * 
  * @param ppid - Parent process ID
  * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
  * @returns Array of child PIDs (direct children only)
  * @throws {InvalidInputError} If ppid is invalid
- * @throws {ProcessNotFoundError} If command fails
  * 
  * @example
  * ```typescript
@@ -30,57 +33,95 @@ import { execText, isWindows, parseWindowsPsJson } from './utils';
  * 
  * @internal
  */
-export const findChildPidsOnce = async (ppid: number, timeoutMs?: number): Promise<number[]> => {
+export const findChildPidsOnce = async (
+    ppid: number,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> => {
     if (!Number.isInteger(ppid) || ppid <= 0) {
         throw new InvalidInputError(`Invalid parent PID: ${ppid}. Must be a positive integer.`);
     }
 
     try {
-        if (isWindows) {
-            // Windows: Query Win32_Process where ParentProcessId matches
-            const psCmd = `powershell -NoProfile -Command "Get-CimInstance Win32_Process | Where-Object { $_.ParentProcessId -eq ${ppid} } | Select-Object ProcessId | ConvertTo-Json -Compress"`;
-            const out = await execText(psCmd, timeoutMs);
-            const arr = parseWindowsPsJson(out);
-
-            // Filter out any invalid PIDs
-            return arr
-                .map(a => a.ProcessId)
-                .filter((n) => Number.isFinite(n) && n > 0);
-        } else {
-            // Unix: Use ps with --ppid to get children
-            const out = await execText(`ps -o pid= --ppid ${ppid}`, timeoutMs);
-
-            // Parse each line as a PID
-            return out
-                .split(/\r?\n/)
-                .map(s => Number(s.trim()))
-                .filter(n => !Number.isNaN(n) && n > 0);
-        }
+        const processes = await listProcesses(timeoutMs, abortSignal);
+
+        // Filter out any invalid PIDs
+        return processes
+            .filter(p => p.parentPid === ppid)
+            .map(p => p.pid)
+            .filter(n => Number.isFinite(n) && n > 0);
     } catch (error) {
         if (error instanceof CommandExecutionError) {
             // Command failed - might mean no children or ppid doesn't exist
-            log.debug(`Failed to find child processes of PID ${ppid}: ${error.message}`);
+            log.debug(`Failed to find child processes of PID ${ppid}: ${error.message}`, { operation: 'findChildPidsOnce', pid: ppid });
             return []; // Return empty array instead of throwing
         }
         throw error;
     }
 };
 
+/**
+ * Group a process snapshot by parent PID
+ * @internal
+ */
+const indexByParent = (processes: ProcessInfo[]): Map<number, ProcessInfo[]> => {
+    const byParent = new Map<number, ProcessInfo[]>();
+    for (const p of processes) {
+        if (p.parentPid === undefined || p.parentPid === p.pid) continue;
+        const siblings = byParent.get(p.parentPid);
+        if (siblings) siblings.push(p);
+        else byParent.set(p.parentPid, [p]);
+    }
+    return byParent;
+};
+
+/**
+ * Collect all descendants of a PID from a process snapshot
+ * 
+ * Breadth-first, so parents always come before their children.
+ * The root PID itself is NOT included.
+ * 
+ * @param processes - Snapshot from listProcesses()
+ * @param pid - Root process ID
+ * @returns Descendant PIDs in breadth-first order
+ * 
+ * @internal
+ */
+export const collectDescendantPids = (processes: ProcessInfo[], pid: number): number[] => {
+    const byParent = indexByParent(processes);
+    const result: number[] = [];
+    const queue: number[] = [pid];
+    const visited = new Set<number>([pid]);
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+
+        for (const child of byParent.get(current) || []) {
+            // Skip if already processed (prevent infinite loops)
+            if (visited.has(child.pid)) continue;
+            visited.add(child.pid);
+            result.push(child.pid);
+            queue.push(child.pid);
+        }
+    }
+
+    return result;
+};
+
 /**
  * Find ALL descendant processes of a PID (recursive)
  * 
- * This performs a breadth-first search of the process tree:
- * 1. Start with the target PID
- * 2. Find all direct children
- * 3. For each child, find their children
- * 4. Continue recursively until no more children found
+ * Takes ONE process snapshot via listProcesses() and walks it in memory,
+ * so a 200-process tree costs a single system call instead of one per node.
  * 
  * Important: The returned array does NOT include the root PID itself,
  * only its descendants. This allows caller to decide kill order.
  * 
  * @param pid - Root process ID to start from
- * @param timeoutMs - Optional timeout for each command
+ * @param timeoutMs - Optional timeout for the snapshot command
+ * @param abortSignal - Optional AbortSignal to cancel the snapshot
  * @returns Array of all descendant PIDs (children, grandchildren, etc.)
+ * @throws {AbortError} If the signal is aborted
  * 
  * @example
  * ```typescript
@@ -97,44 +138,107 @@ export const findChildPidsOnce = async (ppid: number, timeoutMs?: number): Promi
  * 
  * @internal
  */
-export const findDescendantPids = async (pid: number, timeoutMs?: number): Promise<number[]> => {
-    const result: number[] = [];
-    const queue: number[] = [pid];
-    const visited = new Set<number>();
+export const findDescendantPids = async (
+    pid: number,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> => {
+    log.debug(`Finding descendants of PID ${pid}...`, { operation: 'findDescendantPids', pid });
+
+    let processes: ProcessInfo[];
+    try {
+        processes = await listProcesses(timeoutMs, abortSignal);
+    } catch (error) {
+        if (error instanceof AbortError) throw error;
+        // Non-fatal: caller still kills the root process
+        log.warn(`Failed to list processes for PID ${pid}: ${(error as Error).message}`, { operation: 'findDescendantPids', pid });
+        return [];
+    }
 
-    log.debug(`Finding descendants of PID ${pid}...`);
+    const descendants = collectDescendantPids(processes, pid);
+    log.debug(`Found ${descendants.length} descendants of PID ${pid}`, { operation: 'findDescendantPids', pid });
 
-    // Breadth-first search through process tree
-    while (queue.length > 0) {
-        const current = queue.shift()!;
+    return descendants;
+};
 
-        // Skip if already processed (prevent infinite loops)
-        if (visited.has(current)) continue;
-        visited.add(current);
-
-        try {
-            // Find direct children of current process
-            const children = await findChildPidsOnce(current, timeoutMs);
-
-            log.debug(`PID ${current} has ${children.length} children`);
-
-            for (const child of children) {
-                if (!visited.has(child)) {
-                    result.push(child);  // Add to results
-                    queue.push(child);   // Queue for processing
-                }
-            }
-        } catch (error) {
-            // Non-fatal: just log and continue with other processes
-            log.warn(`Failed to find children of PID ${current}: ${(error as Error).message}`);
-        }
+/**
+ * Build process trees from a snapshot
+ * 
+ * Every process whose parent is missing from the snapshot becomes a root
+ * (on Unix that is usually just PID 1 and kernel threads under PID 2).
+ * 
+ * @param processes - Snapshot from listProcesses()
+ * @returns Root nodes, each with nested children
+ * 
+ * @example
+ * ```typescript
+ * const roots = buildProcessTree(await listProcesses());
+ * const print = (node: ProcessTreeNode, depth = 0) => {
+ *   console.log(`${'  '.repeat(depth)}${node.pid} ${node.info.name}`);
+ *   node.children.forEach(c => print(c, depth + 1));
+ * };
+ * roots.forEach(r => print(r));
+ * ```
+ */
+export const buildProcessTree = (processes: ProcessInfo[]): ProcessTreeNode[] => {
+    const nodes = new Map<number, ProcessTreeNode>();
+    for (const info of processes) {
+        nodes.set(info.pid, { pid: info.pid, info, children: [] });
     }
 
-    // Exclude the root pid itself from results
-    const filtered = result.filter((p) => p !== pid);
-
-    log.debug(`Found ${filtered.length} descendants of PID ${pid}`);
+    const roots: ProcessTreeNode[] = [];
+    for (const node of nodes.values()) {
+        const parentPid = node.info.parentPid;
+        const parent = parentPid !== undefined && parentPid !== node.pid ? nodes.get(parentPid) : undefined;
+        if (parent) parent.children.push(node);
+        else roots.push(node);
+    }
 
-    return filtered;
+    return roots;
 };
 
+/**
+ * Get the process tree rooted at a PID from a single snapshot
+ * 
+ * @param pid - Root process ID
+ * @param timeoutMs - Optional timeout for the snapshot command
+ * @param abortSignal - Optional AbortSignal to cancel the snapshot
+ * @returns Tree node for the PID with nested children
+ * @throws {InvalidInputError} If PID is invalid
+ * @throws {ProcessNotFoundError} If the PID is not in the snapshot
+ * 
+ * @example
+ * ```typescript
+ * const tree = await getProcessTree(1234);
+ * console.log(`${tree.info.name} has ${tree.children.length} direct children`);
+ * ```
+ */
+export const getProcessTree = (
+    pid: number,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<ProcessTreeNode> => withLogContext('getProcessTree', false, async () => {
+    if (!Number.isInteger(pid) || pid <= 0) {
+        throw new InvalidInputError(`Invalid PID: ${pid}. Must be a positive integer.`);
+    }
+
+    const processes = await listProcesses(timeoutMs, abortSignal);
+    const byParent = indexByParent(processes);
+    const root = processes.find(p => p.pid === pid);
+
+    if (!root) {
+        throw new ProcessNotFoundError(`Process ${pid} not found`);
+    }
+
+    // Build only the subtree under the root, guarding against PID cycles
+    const visited = new Set<number>();
+    const build = (info: ProcessInfo): ProcessTreeNode => {
+        visited.add(info.pid);
+        const children = (byParent.get(info.pid) || [])
+            .filter(c => !visited.has(c.pid))
+            .map(build);
+        return { pid: info.pid, info, children };
+    };
+
+    return build(root);
+});
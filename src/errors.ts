@@ -3,6 +3,8 @@
  * @module errors
  */
 
+import type { KillResult } from './types';
+
 /**
  * Error thrown when a process is not found or doesn't exist
  * 
@@ -105,3 +107,35 @@ export class InvalidInputError extends Error {
     }
 }
 
+
+/**
+ * Error thrown when an operation is cancelled through an AbortSignal
+ * Batch operations attach the results gathered before the abort
+ * 
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 1000);
+ * 
+ * try {
+ *   await killByPortRange(1, 65535, { abortSignal: controller.signal });
+ * } catch (error) {
+ *   if (error instanceof AbortError) {
+ *     console.log(`Aborted after ${error.results.length} kills`);
+ *   }
+ * }
+ * ```
+ */
+export class AbortError extends Error {
+    /** Kill results completed before the operation was aborted */
+    public readonly results: KillResult[];
+
+    constructor(message: string = 'Operation aborted', results: KillResult[] = []) {
+        super(message);
+        this.name = 'AbortError';
+        this.results = results;
+        if (Error.captureStackTrace) {
+            Error.captureStackTrace(this, AbortError);
+        }
+    }
+}
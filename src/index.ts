@@ -5,14 +5,16 @@
  * 
  * Features:
  * - Cross-platform support (Windows, Linux, macOS)
- * - Kill by PID, port, port range, or process name
+ * - Kill by PID, port, port range, process name, or query
  * - Process tree killing (kill parent and all children)
  * - Retry mechanism with configurable attempts
  * - Signal escalation (SIGTERM → SIGKILL on Unix)
  * - Process verification (confirm process is dead)
+ * - Protected-process safeguards (init, self, ancestors, configurable list)
  * - Smart caching to reduce system calls
+ * - Pluggable process backend (in-memory backend for tests)
  * - Detailed operation results
- * - Debug logging support
+ * - Pluggable structured logging (custom sinks, levels, JSON lines)
  * 
  * @module kproc
  * @version 2.0.0
@@ -42,8 +44,15 @@
 // ============================================================================
 
 export type {
-    FindByNameOptions, KillOptions,
-    KillResult, ProcessInfo, UnixSignal
+    BatchProgress, CacheOptions, CacheStats, FileAccessMode, FindByCwdOptions,
+    FindByFileOptions, FindByNameOptions, FindByUserOptions, KillByUserOptions,
+    KillOptions, KillResult, LogFields, LoggerLike, LoggerOptions, LogLevel,
+    LogRecord, LogSink, MemoryBackend, MemoryBackendOptions, OpenFileInfo,
+    OpenFileQuery, PortKillOptions, PortQueryOptions, ProcessBackend, ProcessInfo,
+    ProcessInfoOptions, ProcessPaths, ProcessQuery, ProcessState, ProcessStats,
+    ProcessStatsOptions, ProcessTreeNode, ProtectionOptions, SignalStep, SocketInfo,
+    SocketQuery, UnixSignal, WaitForPortOptions, Watcher, WatchEvent, WatchOptions,
+    WatchPortOptions
 } from './types';
 
 // ============================================================================
@@ -51,7 +60,7 @@ export type {
 // ============================================================================
 
 export {
-    CommandExecutionError, InvalidInputError, ProcessNotFoundError, TimeoutError
+    AbortError, CommandExecutionError, InvalidInputError, ProcessNotFoundError, TimeoutError
 } from './errors';
 
 // ============================================================================
@@ -59,23 +68,54 @@ export {
 // ============================================================================
 
 export {
+    /** Get the minimum log level currently emitted */
+    getLogLevel,
+    /** Get the id of the kproc operation currently running (e.g. inside hooks) */
+    getOperationId,
     /** Enable or disable debug logging globally */
-    setDebug
+    setDebug,
+    /** Configure log sink, level and console format */
+    setLogger
 } from './logger';
 
 export {
     /** Manually clear the process list cache */
     clearCache,
-    /** Get cache statistics for monitoring */
+    /** Configure cache TTL, maximum size, or disable it */
+    configureCache,
+    /** Get cache statistics (size, hits, misses) for monitoring */
     getCacheStats,
     /** Invalidate a specific cache entry */
     invalidateCache
 } from './cache';
 
 export {
-    /** Check if a process is alive without killing it */
-    isProcessAlive
-} from './utils';
+    /** Get the configured protected PIDs, names and users */
+    getProtected,
+    /** Configure processes that kill functions must never touch */
+    setProtected
+} from './protect';
+
+// ============================================================================
+// Backend Exports
+// ============================================================================
+
+export {
+    /** Get the process backend currently in use */
+    getBackend,
+    /** Replace the process backend (null restores the system backend) */
+    setBackend
+} from './backend';
+
+export {
+    /** Create an in-memory backend with a scriptable process table */
+    createMemoryBackend
+} from './memory-backend';
+
+export {
+    /** The default backend for the current platform */
+    systemBackend
+} from './system-backend';
 
 // ============================================================================
 // Lookup Function Exports
@@ -87,6 +127,8 @@ export {
      * Find the main PID bound to a specific port
      * @param port - Port number
      * @param timeoutMs - Optional timeout
+     * @param query - Optional protocol/state filter
+     * @param abortSignal - Optional AbortSignal
      * @returns The first PID found
      * @throws ProcessNotFoundError if no process found
      */
@@ -97,13 +139,56 @@ export {
      * @param nameOrPattern - Name or pattern to match
      * @param opts - Options: { useRegex?: boolean }
      * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
      * @returns Array of matching PIDs
      */
     findPidsByName,
+
+    /**
+     * Find PIDs of processes owned by a user
+     * @param user - User name or uid
+     * @param opts - Options: { pattern?: string, useRegex?: boolean }
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns Array of matching PIDs
+     */
+    findPidsByUser,
+
+    /**
+     * Find PIDs of processes whose working directory is inside a directory
+     * @param dir - Directory
+     * @param opts - Options: { recursive?: boolean } (default true)
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns Array of matching PIDs
+     */
+    findPidsByCwd,
+
+    /**
+     * Find the processes holding a file or directory, with fd and access mode
+     * @param path - File or directory
+     * @param opts - Options: { recursive?: boolean }
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns Array of OpenFileInfo
+     */
+    findFileHolders,
+
+    /**
+     * Find PIDs of processes holding a file or directory
+     * @param path - File or directory
+     * @param opts - Options: { recursive?: boolean }
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns Array of PIDs
+     */
+    findPidsByFile,
     /**
      * Find all PIDs bound to a specific port
      * @param port - Port number (1-65535)
      * @param timeoutMs - Optional timeout
+     * @param query - Optional protocol/state filter
+     * @param abortSignal - Optional AbortSignal
      * @returns Array of PIDs
      */
     findPidsByPort,
@@ -111,6 +196,7 @@ export {
      * Reverse lookup: find all ports used by a PID
      * @param pid - Process ID
      * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
      * @returns Array of port numbers
      */
     findPortsByPid,
@@ -118,12 +204,147 @@ export {
     /**
      * Get comprehensive information about a process
      * @param pid - Process ID
-     * @param timeoutMs - Optional timeout
+     * @param options - Optional timeout, or { cwd, exe, timeoutMs, abortSignal }
+     * @param abortSignal - Optional AbortSignal
      * @returns ProcessInfo with all available details
      */
-    getProcessInfo
+    getProcessInfo,
+
+    /**
+     * Map every local port to its sockets from one socket-table snapshot
+     * @param timeoutMs - Optional timeout
+     * @param query - Optional protocol/state filter
+     * @param abortSignal - Optional AbortSignal
+     * @returns Map of port → SocketInfo[]
+     */
+    getSocketTable,
+
+    /**
+     * Snapshot every running process with one system call
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns Array of ProcessInfo
+     */
+    listProcesses,
+
+    /**
+     * Check if a process is alive without killing it
+     * @param pid - Process ID
+     * @param abortSignal - Optional AbortSignal
+     * @returns True if the process exists
+     */
+    isProcessAlive
 } from './lookup';
 
+export {
+    /**
+     * Get numeric CPU, memory, thread and fd usage, sampled over an interval
+     * @param pid - Process ID, or an array of PIDs
+     * @param options - { sampleMs, timeoutMs, abortSignal }
+     * @returns ProcessStats (array for an array of PIDs)
+     */
+    getProcessStats
+} from './stats';
+
+// ============================================================================
+// Query Function Exports
+// ============================================================================
+
+export {
+    /**
+     * Find PIDs matching a filter object
+     * @param query - { name, command, user, parentPid, minAgeMs, minCpuPercent, minMemoryBytes, port }
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns Array of matching PIDs
+     */
+    findPids,
+
+    /**
+     * Find processes matching a filter object
+     * @param query - Process query
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns Array of matching ProcessInfo
+     */
+    findProcesses,
+
+    /**
+     * Kill every process matching a filter object
+     * @param query - Process query
+     * @param options - Kill options
+     * @returns Array of KillResult
+     */
+    killWhere
+} from './query';
+
+// ============================================================================
+// Wait Function Exports
+// ============================================================================
+
+export {
+    /**
+     * Wait until no process holds a port
+     * @param port - Port number
+     * @param options - { timeoutMs, intervalMs, abortSignal, protocol, state }
+     * @throws TimeoutError if the port is still in use
+     */
+    waitForPortFree,
+
+    /**
+     * Wait until some process holds a port
+     * @param port - Port number
+     * @param options - { timeoutMs, intervalMs, abortSignal, protocol, state }
+     * @returns PIDs bound to the port
+     * @throws TimeoutError if the port is still free
+     */
+    waitForPortInUse
+} from './wait';
+
+// ============================================================================
+// Watch Function Exports
+// ============================================================================
+
+export {
+    /**
+     * Watch a process until it exits
+     * @param pid - Process ID
+     * @param options - { intervalMs, abortSignal }
+     * @returns Watcher emitting 'exit' (EventEmitter and async iterator)
+     */
+    watchProcess,
+
+    /**
+     * Watch a port for processes binding and releasing it
+     * @param port - Port number
+     * @param options - { intervalMs, abortSignal, protocol, state }
+     * @returns Watcher emitting 'bound' and 'released' (EventEmitter and async iterator)
+     */
+    watchPort
+} from './watch';
+
+// ============================================================================
+// Process Tree Exports
+// ============================================================================
+
+export {
+    /**
+     * Build process trees from a listProcesses() snapshot
+     * @param processes - Process snapshot
+     * @returns Root nodes with nested children
+     */
+    buildProcessTree,
+
+    /**
+     * Get the process tree rooted at a PID from one snapshot
+     * @param pid - Root process ID
+     * @param timeoutMs - Optional timeout
+     * @param abortSignal - Optional AbortSignal
+     * @returns ProcessTreeNode
+     */
+    getProcessTree
+} from './core';
+
 // ============================================================================
 // Kill Function Exports
 // ============================================================================
@@ -156,7 +377,7 @@ export {
     /**
      * Kill the main process bound to a port
      * @param port - Port number
-     * @param options - Kill options
+     * @param options - Kill options and port query (default: TCP listeners) and waitForRelease
      * @returns KillResult
      */
     killByPort,
@@ -164,33 +385,72 @@ export {
      * Kill all processes bound to ports in a range
      * @param start - Starting port (inclusive)
      * @param end - Ending port (inclusive)
-     * @param options - Kill options
+     * @param options - Kill options and port query (default: TCP listeners) and waitForRelease
      * @returns Array of KillResult
      */
     killByPortRange,
     /**
      * Kill all processes bound to multiple ports
      * @param ports - Array of port numbers
-     * @param options - Kill options
+     * @param options - Kill options and port query (default: TCP listeners) and waitForRelease
+     * @returns Array of KillResult
+     */
+    killByPorts,
+    /**
+     * Kill every process owned by a user (root refused unless allowRoot)
+     * @param user - User name or uid
+     * @param opts - Combined FindByUserOptions, KillOptions & allowRoot
+     * @returns Array of KillResult
+     */
+    killByUser,
+    /**
+     * Kill every process whose working directory is inside a directory
+     * @param dir - Directory
+     * @param opts - Combined FindByCwdOptions & KillOptions
+     * @returns Array of KillResult
+     */
+    killByCwd,
+    /**
+     * Kill every process holding a file or directory
+     * @param path - File or directory
+     * @param opts - Combined FindByFileOptions & KillOptions
      * @returns Array of KillResult
      */
-    killByPorts
+    killByFile
 } from './kill';
 
 // ============================================================================
 // Default Export (for CommonJS compatibility)
 // ============================================================================
 
+import * as backend from './backend';
 import * as cache from './cache';
+import * as core from './core';
 import * as kproc from './kill';
 import * as logger from './logger';
 import * as lookup from './lookup';
+import * as memoryBackend from './memory-backend';
+import * as protect from './protect';
+import * as query from './query';
+import * as stats from './stats';
+import * as systemBackend from './system-backend';
 import * as utils from './utils';
+import * as wait from './wait';
+import * as watch from './watch';
 
 export default {
     ...kproc,
     ...lookup,
+    ...core,
     ...utils,
     ...cache,
     ...logger,
+    ...backend,
+    ...memoryBackend,
+    ...systemBackend,
+    ...wait,
+    ...watch,
+    ...query,
+    ...stats,
+    ...protect,
 };
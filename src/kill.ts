@@ -3,27 +3,260 @@
  * @module kill
  */
 
-import { findDescendantPids } from './core';
-import { InvalidInputError, ProcessNotFoundError } from './errors';
-import { log, setDebug } from './logger';
-import { findPidByPort, findPidsByName, findPidsByPort } from './lookup';
-import type { FindByNameOptions, KillOptions, KillResult, UnixSignal } from './types';
-import { execText, isProcessAlive, isWindows, sleep } from './utils';
+import { getBackend } from './backend';
+import { invalidateProcess } from './cache';
+import { collectDescendantPids, findDescendantPids } from './core';
+import { AbortError, InvalidInputError, ProcessNotFoundError, TimeoutError } from './errors';
+import { log, withLogContext } from './logger';
+import {
+    findPidByPort, findPidsByCwd, findPidsByFile, findPidsByName, findProcessesByUser, getSocketTable, isOriginalAlive, isProcessAlive, listProcesses
+} from './lookup';
+import { getProtectionReason, withoutSelf } from './protect';
+import type {
+    FindByCwdOptions, FindByFileOptions, FindByNameOptions, KillByUserOptions, KillOptions, KillResult, PortKillOptions, PortQueryOptions, ProcessInfo,
+    SignalStep, UnixSignal
+} from './types';
+import { allSettledLimit, DEFAULT_CONCURRENCY, sleep, throwIfAborted } from './utils';
+import { waitForPortFree } from './wait';
+
+/**
+ * Run a lifecycle hook from KillOptions
+ * A failing hook is logged and never aborts the kill.
+ * 
+ * @internal
+ */
+const runHook = async <A extends unknown[]>(
+    name: string,
+    hook: ((...args: A) => unknown) | undefined,
+    ...args: A
+): Promise<void> => {
+    if (!hook) return;
+    try {
+        await hook(...args);
+    } catch (error) {
+        log.warn(`${name} hook failed: ${(error as Error).message}`);
+    }
+};
+
+/**
+ * Ask the onBeforeKill hook whether a process may be killed
+ * A hook that throws vetoes the kill. The process details are read
+ * unless the caller already has them.
+ * 
+ * @internal
+ */
+const approveKill = async (pid: number, options: KillOptions, snapshot?: ProcessInfo | null): Promise<boolean> => {
+    if (!options.onBeforeKill) return true;
+    throwIfAborted(options.abortSignal);
+
+    try {
+        const info = snapshot !== undefined
+            ? snapshot
+            : await getBackend().getProcess(pid, options.timeoutMs, options.abortSignal).catch(() => null);
+        return (await options.onBeforeKill(pid, info)) !== false;
+    } catch (error) {
+        log.warn(`onBeforeKill hook failed for PID ${pid}, skipping it: ${(error as Error).message}`, { operation: 'killByPid', pid });
+        return false;
+    }
+};
+
+/**
+ * Delay between liveness checks while waiting for a process to exit
+ */
+const EXIT_POLL_INTERVAL_MS = 100;
+
+/**
+ * Resolve the signal ladder of a kill
+ * 
+ * - signalSequence: used as given (validated)
+ * - forceAfterTimeout: [signal for escalationDelayMs, then SIGKILL]
+ * - otherwise: a single step with `signal`
+ * 
+ * @throws {InvalidInputError} If signalSequence is empty or has an invalid waitMs
+ * @internal
+ */
+const resolveSignalSteps = (options: KillOptions): SignalStep[] => {
+    const { signal = "SIGTERM", forceAfterTimeout = false, escalationDelayMs = 3000, signalSequence } = options;
+
+    if (signalSequence !== undefined) {
+        if (!Array.isArray(signalSequence) || signalSequence.length === 0) {
+            throw new InvalidInputError("signalSequence must be a non-empty array");
+        }
+        for (const step of signalSequence) {
+            if (!Number.isFinite(step.waitMs) || step.waitMs < 0) {
+                throw new InvalidInputError(`Invalid waitMs for ${step.signal}: ${step.waitMs}. Must be a non-negative number.`);
+            }
+        }
+        return signalSequence.map(step => ({ ...step }));
+    }
+
+    if (forceAfterTimeout && signal !== "SIGKILL") {
+        return [{ signal, waitMs: escalationDelayMs }, { signal: "SIGKILL", waitMs: 0 }];
+    }
+    return [{ signal, waitMs: 0 }];
+};
+
+/**
+ * Poll until every process exits or waitMs elapses
+ * 
+ * @param startTimes - Start times recorded before the kill, to detect PID reuse
+ * @returns True if all processes exited
+ * @internal
+ */
+const waitForExit = async (
+    pids: number[],
+    waitMs: number,
+    abortSignal?: AbortSignal,
+    startTimes: Map<number, number> = new Map()
+): Promise<boolean> => {
+    const deadline = Date.now() + waitMs;
+    let remaining = pids;
+
+    while (true) {
+        const alive = await Promise.all(remaining.map(p => isOriginalAlive(p, startTimes.get(p), abortSignal)));
+        remaining = remaining.filter((_, idx) => alive[idx]);
+        if (remaining.length === 0) return true;
+
+        const left = deadline - Date.now();
+        if (left <= 0) return false;
+        await sleep(Math.min(EXIT_POLL_INTERVAL_MS, left), abortSignal);
+    }
+};
+
+/**
+ * Maximum number of snapshots taken while freezing a tree
+ * Bounds the loop when processes fork faster than they can be stopped
+ */
+const FREEZE_MAX_PASSES = 10;
+
+/**
+ * Stop a process tree with SIGSTOP until a snapshot shows no new descendants
+ * 
+ * The root is stopped first so it can neither fork nor respawn workers;
+ * each pass then stops the descendants that appeared since the previous one.
+ * 
+ * @param pid - Root process ID
+ * @param admit - Decides whether a descendant may be frozen and killed
+ * @param frozen - Receives every stopped PID, so the caller can resume them even on failure
+ * @returns Admitted descendants, each listed before its parent (leaves first)
+ * @internal
+ */
+const freezeTree = async (
+    pid: number,
+    options: KillOptions,
+    admit: (child: number) => Promise<boolean>,
+    frozen: number[]
+): Promise<number[]> => {
+    const { timeoutMs, abortSignal } = options;
+    const backend = getBackend();
+
+    await backend.sendSignal(pid, 'SIGSTOP', timeoutMs, abortSignal);
+    frozen.push(pid);
+
+    const seen = new Set<number>();
+    const order: number[] = [];
+
+    for (let pass = 1; ; pass++) {
+        let processes;
+        try {
+            processes = await listProcesses(timeoutMs, abortSignal);
+        } catch (error) {
+            if (error instanceof AbortError) throw error;
+            log.warn(`Failed to list processes for PID ${pid}: ${(error as Error).message}`, { operation: 'killByPid', pid });
+            break;
+        }
+
+        const fresh = collectDescendantPids(processes, pid).filter(child => !seen.has(child));
+        if (fresh.length === 0) {
+            log.debug(`Process tree of PID ${pid} is frozen after ${pass} snapshot(s)`, { operation: 'killByPid', pid });
+            break;
+        }
+
+        for (const child of fresh) {
+            seen.add(child);
+            if (!await admit(child)) continue;
+
+            try {
+                await backend.sendSignal(child, 'SIGSTOP', timeoutMs, abortSignal);
+                frozen.push(child);
+                order.push(child);
+            } catch (error) {
+                if (error instanceof AbortError) throw error;
+                log.debug(`Could not freeze child process ${child}: ${(error as Error).message}`, { operation: 'killByPid', pid: child });
+            }
+        }
+
+        if (pass === FREEZE_MAX_PASSES) {
+            log.warn(`Process tree of PID ${pid} still growing after ${pass} snapshots, killing what is frozen`, { operation: 'killByPid', pid });
+            break;
+        }
+    }
+
+    // Breadth-first order reversed: children always come before their parents
+    return order.reverse();
+};
+
+/**
+ * Resume stopped processes with SIGCONT so pending signals are delivered
+ * Processes that already exited are ignored.
+ * 
+ * @internal
+ */
+const resumeAll = async (pids: number[], timeoutMs?: number): Promise<void> => {
+    const backend = getBackend();
+    for (const target of pids) {
+        await backend.sendSignal(target, 'SIGCONT', timeoutMs).catch(() => undefined);
+    }
+};
+
+/**
+ * Find the members of a process's group or session in one snapshot
+ * 
+ * @returns Group or session id and member PIDs (the target included)
+ * @throws {ProcessNotFoundError} If the target or its group id is unknown
+ * @internal
+ */
+const findGroupMembers = async (
+    pid: number,
+    group: 'pgid' | 'session',
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<{ id: number; members: number[] }> => {
+    const groupId = (p: ProcessInfo | undefined) => group === 'pgid' ? p?.pgid : p?.sessionId;
+    const processes = await listProcesses(timeoutMs, abortSignal);
+    const id = groupId(processes.find(p => p.pid === pid));
+
+    // 0 would address our own group in kill(2)
+    if (!id) {
+        throw new ProcessNotFoundError(`Could not determine the ${group === 'pgid' ? 'process group' : 'session'} of process ${pid}`);
+    }
+
+    return { id, members: processes.filter(p => groupId(p) === id).map(p => p.pid) };
+};
 
 /**
  * Kill a process by its PID with comprehensive options
  * 
  * This is the core kill function with many advanced features:
  * - Retry mechanism: Auto-retry failed kill attempts
- * - Signal escalation: Auto-escalate SIGTERM → SIGKILL on Unix
- * - Process verification: Confirm process is actually dead
- * - Process tree: Kill all child processes recursively
+ * - Signal escalation: Auto-escalate SIGTERM → SIGKILL on Unix, or walk
+ *   a custom signalSequence ladder (e.g. SIGINT → SIGTERM → SIGKILL)
+ * - Process verification: Poll until the process is gone (PID reuse safe)
+ * - Process tree: Kill all child processes recursively; `treeMode: 'freeze'`
+ *   SIGSTOPs the tree first so forked or respawned children cannot escape
+ * - Process groups: `group` signals the target's process group or session
  * - Dry run: Simulate without actually killing
+ * - Safeguards: PID 1, the current process, its ancestors and the
+ *   protected list (see setProtected) are skipped unless `force` is set
+ * - Lifecycle hooks: onBeforeKill (veto), onSignalSent, onEscalate,
+ *   onRetry and onComplete
+ * - Cancellation: `abortSignal` interrupts lookups, escalation and retry waits
  * 
  * @param pid - Process ID to kill
  * @param options - Kill options (see KillOptions interface)
  * @returns KillResult with detailed operation information
  * @throws {InvalidInputError} If PID is invalid
+ * @throws {AbortError} If `abortSignal` is aborted
  * 
  * @example
  * ```typescript
@@ -43,9 +276,35 @@ import { execText, isProcessAlive, isWindows, sleep } from './utils';
  *   forceAfterTimeout: true,
  *   escalationDelayMs: 2000
  * });
+ * 
+ * // Graceful shutdown ladder: SIGINT, then SIGTERM after 5s, then SIGKILL after 10s more
+ * const result = await killByPid(1234, {
+ *   signalSequence: [
+ *     { signal: 'SIGINT', waitMs: 5000 },
+ *     { signal: 'SIGTERM', waitMs: 10000 },
+ *     { signal: 'SIGKILL', waitMs: 1000 },
+ *   ]
+ * });
+ * console.log(`Exited after step ${result.sequenceStep}`);
+ * 
+ * // Race-free tree kill: freeze, signal leaves first, then resume
+ * const result = await killByPid(1234, { tree: true, treeMode: 'freeze' });
+ * 
+ * // Signal the whole process group (kill(-pgid)), e.g. a shell pipeline
+ * const result = await killByPid(1234, { group: 'pgid' });
+ * 
+ * // Audit every signal and veto kills of root processes
+ * const result = await killByPid(1234, {
+ *   tree: true,
+ *   onBeforeKill: (pid, info) => info?.user !== 'root',
+ *   onSignalSent: (pid, signal) => audit.log({ pid, signal }),
+ * });
  * ```
  */
-export const killByPid = async (pid: number, options: KillOptions = {}): Promise<KillResult> => {
+export const killByPid = (
+    pid: number,
+    options: KillOptions = {}
+): Promise<KillResult> => withLogContext('killByPid', options.debug, async () => {
     // Validate PID
     if (!Number.isInteger(pid) || pid <= 0) {
         throw new InvalidInputError(`Invalid PID: ${pid}. Must be a positive integer.`);
@@ -53,108 +312,282 @@ export const killByPid = async (pid: number, options: KillOptions = {}): Promise
 
     // Extract options with defaults
     const {
-        signal = "SIGTERM",
         dryRun = false,
         tree = false,
         timeoutMs,
-        forceAfterTimeout = false,
-        escalationDelayMs = 3000,
         verify = false,
+        verifyTimeoutMs = 2000,
         retries = 0,
-        debug = false,
+        force = false,
+        abortSignal,
+        treeMode = 'sequential',
+        group,
     } = options;
 
-    // Enable debug if requested for this operation
-    if (debug) setDebug(true);
+    if (treeMode !== 'sequential' && treeMode !== 'freeze') {
+        throw new InvalidInputError(`Invalid treeMode: ${treeMode}. Must be 'sequential' or 'freeze'.`);
+    }
+    if (!Number.isFinite(verifyTimeoutMs) || verifyTimeoutMs < 0) {
+        throw new InvalidInputError(`Invalid verifyTimeoutMs: ${verifyTimeoutMs}. Must be a non-negative number.`);
+    }
+    if (group !== undefined && group !== 'pgid' && group !== 'session') {
+        throw new InvalidInputError(`Invalid group: ${group}. Must be 'pgid' or 'session'.`);
+    }
+
+    throwIfAborted(abortSignal);
+
+    const backend = getBackend();
+    if (group === 'pgid' && !backend.sendGroupSignal) {
+        throw new InvalidInputError(`Process group kills are not supported by the ${backend.name} backend`);
+    }
+
+    const steps = resolveSignalSteps(options);
+    const signal = steps[0].signal;
+
+    // Backends without signal support force-kill on the first step
+    const ladder = backend.supportsSignals && (options.signalSequence !== undefined || steps.length > 1);
+
+    const startedAt = Date.now();
+    let attempts = 0;
+    let step = 0;
+    const children = new Map<number, KillResult>();
+
+    // Snapshot of the target before anything is signalled
+    const snapshot = await backend.getProcess(pid, timeoutMs, abortSignal).catch(error => {
+        if (error instanceof AbortError) throw error;
+        return null;
+    });
+
+    // Fields every result carries, whatever the outcome
+    const finalize = (result: KillResult): KillResult => {
+        const full: KillResult = { ...result, attempts, escalated: step > 0, durationMs: Date.now() - startedAt };
+        if (snapshot) full.process = { name: snapshot.name, command: snapshot.command };
+        if (children.size > 0) full.children = [...children.values()];
+        return full;
+    };
+
+    // Every outcome goes through onComplete
+    const complete = async (result: KillResult): Promise<KillResult> => {
+        const full = finalize(result);
+        await runHook('onComplete', options.onComplete, full);
+        return full;
+    };
+
+    const send = async (target: number, sig: UnixSignal): Promise<void> => {
+        await backend.sendSignal(target, sig, timeoutMs, abortSignal);
+        invalidateProcess(target);
+        await runHook('onSignalSent', options.onSignalSent, target, sig);
+    };
+
+    // Safeguard: never kill init, ourselves, our ancestors or protected processes
+    if (!force) {
+        const reason = await getProtectionReason(pid, timeoutMs, abortSignal);
+        if (reason) {
+            log.warn(`Skipping protected process ${pid}: ${reason}`, { operation: 'killByPid', pid });
+            return await complete({ pid, success: false, skipped: true, error: `Refusing to kill protected process ${pid}: ${reason}` });
+        }
+    }
+
+    if (!await approveKill(pid, options, snapshot)) {
+        log.debug(`Kill of process ${pid} vetoed by onBeforeKill`, { operation: 'killByPid', pid });
+        return await complete({ pid, success: false, skipped: true, error: `Kill of process ${pid} vetoed by onBeforeKill` });
+    }
 
     // Dry run: don't actually kill
     if (dryRun) {
-        log.info(`[DRY RUN] Would kill process ${pid} with signal ${signal}${tree ? ' (tree)' : ''}`);
-        return { pid, success: true, signal };
+        const scope = group ? ` (${group === 'pgid' ? 'process group' : 'session'})` : tree ? ' (tree)' : '';
+        log.info(`[DRY RUN] Would kill process ${pid} with signal ${steps.map(s => s.signal).join(' → ')}${scope}`, { operation: 'killByPid', pid });
+        return await complete({ pid, success: true, signal });
     }
 
     // Check if process exists before attempting kill
-    const exists = await isProcessAlive(pid);
+    const exists = await isProcessAlive(pid, abortSignal);
     if (!exists) {
-        log.debug(`Process ${pid} is already dead`);
-        return { pid, success: true, verified: true };
+        log.debug(`Process ${pid} is already dead`, { operation: 'killByPid', pid });
+        return await complete({ pid, success: true, verified: true });
     }
 
+    // Remember who we are killing, so a process reusing the PID is not mistaken for it
+    const startTimes = new Map<number, number>();
+    if (snapshot?.startTime !== undefined) startTimes.set(pid, snapshot.startTime);
+
     let attempt = 0;
+    let signalledAt: number | undefined;
+    let exitedAfterMs: number | undefined;
     let lastError: Error | undefined;
+    let exitStep: number | undefined;
     let usedSignal: UnixSignal = signal;
+    let delivered = false;
+
+    // An abort after the signal went out still reports what was done
+    const aborted = (error: AbortError): AbortError => !delivered ? error : new AbortError(error.message, [
+        finalize(lastError
+            ? { pid, success: false, signal: usedSignal, error: lastError.message }
+            : { pid, success: true, signal: usedSignal }),
+    ]);
+
+    // Protection and onBeforeKill for tree children and session members
+    const admit = async (child: number): Promise<boolean> => {
+        if (!force) {
+            const reason = await getProtectionReason(child, timeoutMs, abortSignal);
+            if (reason) {
+                log.warn(`Skipping protected child process ${child}: ${reason}`, { operation: 'killByPid', pid: child });
+                children.set(child, { pid: child, success: false, skipped: true, error: `Refusing to kill protected process ${child}: ${reason}` });
+                return false;
+            }
+        }
+
+        if (!await approveKill(child, options)) {
+            log.debug(`Kill of child process ${child} vetoed by onBeforeKill`, { operation: 'killByPid', pid: child });
+            children.set(child, { pid: child, success: false, skipped: true, error: `Kill of process ${child} vetoed by onBeforeKill` });
+            return false;
+        }
+        return true;
+    };
+
+    // Signal a child without failing the kill of the root; the latest outcome is kept per child
+    const sendChild = async (child: number, sig: UnixSignal): Promise<void> => {
+        try {
+            await send(child, sig);
+            children.set(child, { pid: child, success: true, signal: sig });
+            log.debug(`Killed child process ${child}`, { operation: 'killByPid', pid: child });
+        } catch (error) {
+            if (error instanceof AbortError) throw error;
+            children.set(child, { pid: child, success: false, signal: sig, error: (error as Error).message });
+            log.warn(`Failed to kill child process ${child}: ${(error as Error).message}`, { operation: 'killByPid', pid: child });
+        }
+    };
 
     // Retry loop
     while (attempt <= retries) {
         try {
-            log.debug(`Kill attempt ${attempt + 1}/${retries + 1} for PID ${pid} with signal ${usedSignal}`);
+            attempts++;
+            log.debug(`Kill attempt ${attempt + 1}/${retries + 1} for PID ${pid} with signal ${usedSignal}`, { operation: 'killByPid', pid });
 
-            if (isWindows) {
-                // Windows: Use taskkill
-                const flags = tree ? "/T /F" : "/F";
-                await execText(`taskkill /PID ${pid} ${flags}`, timeoutMs);
-            } else {
-                // Unix: Use kill command
-                const sig = typeof usedSignal === "number" ? usedSignal : usedSignal.toString();
+            signalledAt ??= Date.now();
+
+            // Processes the ladder waits for, and how to signal them again on escalation
+            let watched = [pid];
+            let resend = (sig: UnixSignal): Promise<void> => send(pid, sig);
+
+            if (group === 'pgid') {
+                const { id, members } = await findGroupMembers(pid, group, timeoutMs, abortSignal);
+
+                // kill(-pgid) cannot leave members out, so one protected member blocks the group
+                if (!force) {
+                    for (const member of members) {
+                        const reason = await getProtectionReason(member, timeoutMs, abortSignal);
+                        if (reason) {
+                            log.warn(`Skipping process group ${id}: member ${member} is protected (${reason})`, { operation: 'killByPid', pid });
+                            return await complete({ pid, success: false, skipped: true, error: `Refusing to signal process group ${id}: member ${member} is protected (${reason})` });
+                        }
+                    }
+                }
+
+                log.debug(`Signalling process group ${id} (${members.length} members)`, { operation: 'killByPid', pid });
+                watched = members;
+                resend = async (sig) => {
+                    await backend.sendGroupSignal!(id, sig, timeoutMs, abortSignal);
+                    for (const member of members) {
+                        invalidateProcess(member);
+                        if (member !== pid) children.set(member, { pid: member, success: true, signal: sig });
+                        await runHook('onSignalSent', options.onSignalSent, member, sig);
+                    }
+                };
+                await resend(usedSignal);
+            } else if (group === 'session') {
+                const { id, members } = await findGroupMembers(pid, group, timeoutMs, abortSignal);
+                log.debug(`Signalling session ${id} (${members.length} members)`, { operation: 'killByPid', pid });
 
+                const others: number[] = [];
+                for (const member of members) {
+                    if (member !== pid && await admit(member)) others.push(member);
+                }
+
+                watched = [...others, pid];
+                resend = async (sig) => {
+                    for (const member of others) await sendChild(member, sig);
+                    await send(pid, sig);
+                };
+                await resend(usedSignal);
+            } else if (tree && treeMode === 'freeze' && backend.supportsSignals) {
+                // Freeze first so nothing forks or respawns while we signal
+                const frozen: number[] = [];
+                try {
+                    const descendants = await freezeTree(pid, options, admit, frozen);
+                    log.debug(`Froze ${descendants.length} descendant processes for PID ${pid}`, { operation: 'killByPid', pid });
+
+                    for (const child of descendants) await sendChild(child, usedSignal);
+                    await send(pid, usedSignal);
+                } finally {
+                    // Stopped processes only act on SIGTERM & co. once continued
+                    await resumeAll(frozen, timeoutMs);
+                }
+            } else {
                 // Kill process tree if requested
                 if (tree) {
-                    const descendants = await findDescendantPids(pid, timeoutMs);
-                    log.debug(`Found ${descendants.length} descendant processes for PID ${pid}`);
+                    const descendants = await findDescendantPids(pid, timeoutMs, abortSignal);
+                    log.debug(`Found ${descendants.length} descendant processes for PID ${pid}`, { operation: 'killByPid', pid });
 
-                    // Kill children first (bottom-up), then parent
+                    // Kill children first, then parent
                     for (const child of descendants) {
-                        try {
-                            await execText(`kill -s ${sig} ${child}`, timeoutMs);
-                            log.debug(`Killed child process ${child}`);
-                        } catch (error) {
-                            log.warn(`Failed to kill child process ${child}: ${(error as Error).message}`);
-                        }
+                        if (await admit(child)) await sendChild(child, usedSignal);
                     }
                 }
 
                 // Kill the main process
-                await execText(`kill -s ${sig} ${pid}`, timeoutMs);
+                await send(pid, usedSignal);
             }
+            delivered = true;
 
             // Command succeeded
-            log.debug(`Kill command succeeded for PID ${pid}`);
-
-            // Signal escalation: if process still alive after delay, try SIGKILL
-            if (forceAfterTimeout && !isWindows && usedSignal !== "SIGKILL") {
-                await sleep(escalationDelayMs);
-                const stillAlive = await isProcessAlive(pid);
+            log.debug(`Kill command succeeded for PID ${pid}`, { operation: 'killByPid', pid });
 
-                if (stillAlive) {
-                    log.debug(`Process ${pid} still alive after ${escalationDelayMs}ms, escalating to SIGKILL`);
-                    usedSignal = "SIGKILL";
-                    await execText(`kill -9 ${pid}`, timeoutMs);
+            // Signal ladder: wait for the process to exit, otherwise move to the next step
+            while (ladder) {
+                // The last step has nothing to escalate to, so it waits at least
+                // verifyTimeoutMs: a SIGKILL with waitMs 0 still gets to report the exit
+                const last = step === steps.length - 1;
+                const waitMs = last ? Math.max(steps[step].waitMs, verifyTimeoutMs) : steps[step].waitMs;
+                if (await waitForExit(watched, waitMs, abortSignal, startTimes)) {
+                    exitStep = step;
+                    exitedAfterMs = Date.now() - signalledAt;
+                    break;
                 }
+                if (last) break;
+
+                const next = steps[++step].signal;
+                log.debug(`Process ${pid} still alive after ${steps[step - 1].waitMs}ms, escalating to ${next}`, { operation: 'killByPid', pid });
+                await runHook('onEscalate', options.onEscalate, pid, usedSignal, next);
+                usedSignal = next;
+                await resend(next);
             }
 
             // Verification: check if process is actually dead
             if (verify) {
-                await sleep(100); // Give OS time to clean up
-                const stillAlive = await isProcessAlive(pid);
-
-                if (stillAlive) {
-                    throw new ProcessNotFoundError(`Process ${pid} is still alive after kill attempt`);
+                if (!await waitForExit([pid], verifyTimeoutMs, abortSignal, startTimes)) {
+                    throw new ProcessNotFoundError(`Process ${pid} is still alive ${verifyTimeoutMs}ms after kill attempt`);
                 }
+                exitedAfterMs ??= Date.now() - signalledAt;
 
-                log.debug(`Verified process ${pid} is dead`);
-                return { pid, success: true, signal: usedSignal, verified: true };
+                log.debug(`Verified process ${pid} is dead after ${exitedAfterMs}ms`, { operation: 'killByPid', pid });
+                return await complete({ pid, success: true, signal: usedSignal, verified: true, sequenceStep: exitStep, exitedAfterMs });
             }
 
-            return { pid, success: true, signal: usedSignal };
+            return await complete({ pid, success: true, signal: usedSignal, sequenceStep: exitStep, exitedAfterMs });
 
         } catch (error) {
+            // Aborting skips the remaining retries
+            if (error instanceof AbortError) throw aborted(error);
+
             lastError = error as Error;
-            log.debug(`Kill attempt ${attempt + 1} failed: ${lastError.message}`);
+            log.debug(`Kill attempt ${attempt + 1} failed: ${lastError.message}`, { operation: 'killByPid', pid });
 
             // Retry if we have attempts left
             if (attempt < retries) {
-                await sleep(500); // Wait before retry
+                await sleep(500, abortSignal).catch(e => { throw aborted(e); }); // Wait before retry
                 attempt++;
+                await runHook('onRetry', options.onRetry, attempt, lastError, pid);
                 continue;
             }
             break;
@@ -163,27 +596,35 @@ export const killByPid = async (pid: number, options: KillOptions = {}): Promise
 
     // All attempts failed
     const errorMsg = lastError?.message || 'Unknown error';
-    log.error(`Failed to kill process ${pid} after ${retries + 1} attempts: ${errorMsg}`);
+    log.error(`Failed to kill process ${pid} after ${retries + 1} attempts: ${errorMsg}`, { operation: 'killByPid', pid });
 
-    return {
+    return await complete({
         pid,
         success: false,
         signal: usedSignal,
         error: errorMsg,
         verified: false,
-    };
-};
+    });
+});
+
+/**
+ * Whether a settled kill was cancelled by its abort signal
+ * @internal
+ */
+const isAborted = (result: PromiseSettledResult<KillResult>): result is PromiseRejectedResult =>
+    result.status === 'rejected' && result.reason instanceof AbortError;
 
 /**
  * Kill multiple processes by their PIDs in parallel
  * 
- * Uses Promise.allSettled to kill all processes simultaneously without
- * stopping if one fails. This is much faster than killing sequentially.
+ * Kills up to `concurrency` processes at a time (default 8) without
+ * stopping if one fails. `onProgress` is called as each kill completes.
  * 
  * @param pids - Array of process IDs to kill
  * @param options - Kill options applied to all processes
  * @returns Array of KillResult, one for each PID
  * @throws {InvalidInputError} If pids array is empty
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
  * 
  * @example
  * ```typescript
@@ -193,22 +634,39 @@ export const killByPid = async (pid: number, options: KillOptions = {}): Promise
  *   verify: true
  * });
  * 
+ * // Large batch: 4 at a time with a progress bar
+ * const results = await killByPids(pids, {
+ *   concurrency: 4,
+ *   onProgress: ({ completed, total }) => bar.update(completed / total),
+ * });
+ * 
  * // Check results
  * const succeeded = results.filter(r => r.success);
  * const failed = results.filter(r => !r.success);
  * console.log(`Killed: ${succeeded.length}, Failed: ${failed.length}`);
  * ```
  */
-export const killByPids = async (pids: number[], options: KillOptions = {}): Promise<KillResult[]> => {
+export const killByPids = (
+    pids: number[],
+    options: KillOptions = {}
+): Promise<KillResult[]> => withLogContext('killByPids', options.debug, async () => {
     if (!Array.isArray(pids) || pids.length === 0) {
         throw new InvalidInputError("PIDs array must be non-empty");
     }
 
-    log.debug(`Killing ${pids.length} processes in parallel`);
+    throwIfAborted(options.abortSignal);
+    const { concurrency = DEFAULT_CONCURRENCY } = options;
+    log.debug(`Killing ${pids.length} processes, ${concurrency} at a time`, { operation: 'killByPids' });
 
-    // Kill all processes in parallel (don't stop on failure)
-    const results = await Promise.allSettled(
-        pids.map(pid => killByPid(pid, options))
+    // Kill in parallel up to the concurrency limit (don't stop on failure)
+    let completed = 0;
+    const results = await allSettledLimit(pids, concurrency, pid => killByPid(pid, options), result =>
+        runHook('onProgress', options.onProgress, {
+            phase: 'kill',
+            completed: ++completed,
+            total: pids.length,
+            result: result.status === 'fulfilled' ? result.value : undefined,
+        })
     );
 
     // Convert Promise results to KillResults
@@ -224,25 +682,148 @@ export const killByPids = async (pids: number[], options: KillOptions = {}): Pro
         }
     });
 
+    // Aborted: report the kills that finished, drop the cancelled ones
+    if (options.abortSignal?.aborted) {
+        const finished = results.flatMap((result, idx) =>
+            isAborted(result) ? (result.reason as AbortError).results : [killResults[idx]]
+        );
+        log.debug(`Aborted after ${finished.length}/${pids.length} kills`, { operation: 'killByPids' });
+        throw new AbortError(`Operation aborted after ${finished.length}/${pids.length} kills`, finished);
+    }
+
+    // killByPid reports its own results; rejected kills are reported here
+    for (const [idx, result] of results.entries()) {
+        if (result.status === 'rejected') await runHook('onComplete', options.onComplete, killResults[idx]);
+    }
+
     const failed = killResults.filter(r => !r.success);
     if (failed.length > 0) {
-        log.warn(`Failed to kill ${failed.length}/${pids.length} processes`);
+        log.warn(`Failed to kill ${failed.length}/${pids.length} processes`, { operation: 'killByPids' });
     } else {
-        log.debug(`Successfully killed all ${pids.length} processes`);
+        log.debug(`Successfully killed all ${pids.length} processes`, { operation: 'killByPids' });
     }
 
     return killResults;
+});
+
+/**
+ * Resolve the socket filter for port-based kills
+ * Defaults to TCP listeners so clients connected to the port are spared
+ * 
+ * @internal
+ */
+const killPortQuery = (options: PortQueryOptions): PortQueryOptions => ({
+    protocol: options.protocol ?? 'tcp',
+    state: options.state ?? 'listen',
+});
+
+/**
+ * Honour the waitForRelease option of port kills
+ * 
+ * Waits for every port whose process was killed to become free. Results for
+ * PIDs found on a port that is still bound after the timeout become failures,
+ * so a successful KillResult means the port is actually bindable.
+ * 
+ * @param results - Kill results
+ * @param portPids - PIDs found on each port before the kill
+ * @param options - Port kill options
+ * @returns Results, updated for ports that were not released
+ * 
+ * @internal
+ */
+const awaitPortRelease = async (
+    results: KillResult[],
+    portPids: Map<number, number[]>,
+    options: PortKillOptions
+): Promise<KillResult[]> => {
+    if (!options.waitForRelease || options.dryRun) return results;
+
+    const { releaseTimeoutMs = 5000 } = options;
+    const killed = new Set(results.filter(r => r.success).map(r => r.pid));
+    const ports = [...portPids.keys()].filter(port => portPids.get(port)!.some(pid => killed.has(pid)));
+
+    const stillBound = new Map<number, number>();
+    const waits = await allSettledLimit(ports, options.concurrency ?? DEFAULT_CONCURRENCY, async (port) => {
+        try {
+            await waitForPortFree(port, {
+                ...killPortQuery(options),
+                timeoutMs: releaseTimeoutMs,
+                abortSignal: options.abortSignal,
+            });
+        } catch (error) {
+            if (!(error instanceof TimeoutError)) throw error;
+            log.warn(`Port ${port} still in use after ${releaseTimeoutMs} ms`, { operation: 'waitForRelease', port });
+            for (const pid of portPids.get(port)!) stillBound.set(pid, port);
+        }
+    });
+
+    const failure = waits.find((w): w is PromiseRejectedResult => w.status === 'rejected');
+    if (failure) {
+        // Kills already happened: hand their results to the caller
+        if (failure.reason instanceof AbortError) throw new AbortError(failure.reason.message, results);
+        throw failure.reason;
+    }
+
+    return results.map(r => {
+        const port = stillBound.get(r.pid);
+        if (!r.success || port === undefined) return r;
+        return { ...r, success: false, error: `Port ${port} still in use after ${releaseTimeoutMs} ms` };
+    });
+};
+
+/**
+ * Hold back onComplete until the result is final
+ * Selection-based kills first tag each result with what selected it, and
+ * waitForRelease may still turn a success into a failure; completeAll
+ * fires the hook with the final results instead.
+ * 
+ * @internal
+ */
+export const withoutComplete = <T extends KillOptions>(options: T): T => ({ ...options, onComplete: undefined });
+
+/**
+ * Fire the onComplete hooks held back by withoutComplete
+ * @internal
+ */
+export const completeAll = async (results: KillResult[], options: KillOptions): Promise<KillResult[]> => {
+    for (const r of results) await runHook('onComplete', options.onComplete, r);
+    return results;
+};
+
+/**
+ * Record on each result the port, pattern, user, directory, file or query that selected the process
+ * Partial results carried by an AbortError are tagged as well.
+ * 
+ * @internal
+ */
+export const tagSelected = async (
+    kill: Promise<KillResult[]>,
+    tag: (pid: number) => Pick<KillResult, 'port' | 'pattern' | 'user' | 'directory' | 'file' | 'query'>
+): Promise<KillResult[]> => {
+    const withTag = (results: KillResult[]) => results.map(r => ({ ...r, ...tag(r.pid) }));
+    try {
+        return withTag(await kill);
+    } catch (error) {
+        if (error instanceof AbortError) throw new AbortError(error.message, withTag(error.results));
+        throw error;
+    }
 };
 
 /**
  * Kill the main process bound to a specific port
  * 
  * First finds the PID on the port, then kills it.
+ * Only TCP listeners are targeted unless `protocol` / `state` say otherwise,
+ * so an app merely connected to the port is never killed by mistake.
+ * 
+ * With `waitForRelease`, the result only reports success once the port
+ * is actually free again.
  * 
  * @param port - Port number (1-65535)
- * @param options - Kill options
+ * @param options - Kill options, port query (default: protocol 'tcp', state 'listen') and waitForRelease
  * @returns KillResult with details about the killed process
  * @throws {ProcessNotFoundError} If no process found on port
+ * @throws {AbortError} If `abortSignal` is aborted
  * @throws {InvalidInputError} If port is invalid
  * 
  * @example
@@ -252,26 +833,41 @@ export const killByPids = async (pids: number[], options: KillOptions = {}): Pro
  * if (result.success) {
  *   console.log('Port 3000 is now free');
  * }
+ * 
+ * // Kill a UDP server
+ * await killByPort(5353, { protocol: 'udp' });
+ * 
+ * // Restart a dev server without EADDRINUSE
+ * await killByPort(3000, { waitForRelease: true });
+ * startServer();
  * ```
  */
-export const killByPort = async (port: number, options: KillOptions = {}): Promise<KillResult> => {
-    log.debug(`Finding process on port ${port}`);
-    const pid = await findPidByPort(port, options.timeoutMs);
-    log.debug(`Found PID ${pid} on port ${port}`);
-    return await killByPid(pid, options);
-};
+export const killByPort = (
+    port: number,
+    options: PortKillOptions = {}
+): Promise<KillResult> => withLogContext('killByPort', options.debug, async () => {
+    log.debug(`Finding process on port ${port}`, { operation: 'killByPort', port });
+    const pid = await findPidByPort(port, options.timeoutMs, killPortQuery(options), options.abortSignal);
+    log.debug(`Found PID ${pid} on port ${port}`, { operation: 'killByPort', pid, port });
+
+    const results = await tagSelected(killByPid(pid, withoutComplete(options)).then(r => [r]), () => ({ port }));
+    const [released] = await completeAll(await awaitPortRelease(results, new Map([[port, [pid]]]), options), options);
+    return released;
+});
 
 /**
  * Kill all processes bound to any of the given ports
  * 
- * Finds all PIDs across all ports in parallel, then kills them all in parallel.
- * Very efficient for cleaning up multiple ports at once.
+ * Resolves every port from one socket-table snapshot (a single system
+ * call, see getSocketTable), then kills every PID found, `concurrency`
+ * processes at a time (default 8). `onProgress` reports both phases.
  * 
  * @param ports - Array of port numbers
- * @param options - Kill options
+ * @param options - Kill options, port query (default: protocol 'tcp', state 'listen') and waitForRelease
  * @returns Array of KillResult for all PIDs found
  * @throws {InvalidInputError} If ports array is empty
  * @throws {ProcessNotFoundError} If no processes found on any port
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
  * 
  * @example
  * ```typescript
@@ -284,28 +880,36 @@ export const killByPort = async (port: number, options: KillOptions = {}): Promi
  * console.log(`Cleaned up ${results.filter(r => r.success).length} processes`);
  * ```
  */
-export const killByPorts = async (ports: number[], options: KillOptions = {}): Promise<KillResult[]> => {
+export const killByPorts = (
+    ports: number[],
+    options: PortKillOptions = {}
+): Promise<KillResult[]> => withLogContext('killByPorts', options.debug, async () => {
     if (!Array.isArray(ports) || ports.length === 0) {
         throw new InvalidInputError("Ports array must be non-empty");
     }
 
-    log.debug(`Searching for processes on ${ports.length} ports`);
+    log.debug(`Searching for processes on ${ports.length} ports`, { operation: 'killByPorts' });
 
     const unique = new Set<number>();
+    const portPids = new Map<number, number[]>();
     const errors: string[] = [];
+    const query = killPortQuery(options);
 
-    // Find all PIDs across all ports in parallel
-    const portResults = await Promise.allSettled(
-        ports.map(port => findPidsByPort(port, options.timeoutMs))
-    );
+    // Resolve every port from ONE socket-table snapshot
+    const table = await getSocketTable(options.timeoutMs, query, options.abortSignal);
+    throwIfAborted(options.abortSignal);
 
-    portResults.forEach((result, idx) => {
-        if (result.status === 'fulfilled') {
-            result.value.forEach(pid => unique.add(pid));
-        } else {
-            errors.push(`Port ${ports[idx]}: ${result.reason?.message || 'Unknown error'}`);
+    for (const port of ports) {
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+            errors.push(`Port ${port}: Invalid port number. Must be between 1 and 65535.`);
+            continue;
         }
-    });
+
+        const pids = [...new Set((table.get(port) || []).map(s => s.pid))];
+        pids.forEach(pid => unique.add(pid));
+        if (pids.length > 0) portPids.set(port, pids);
+    }
+    await runHook('onProgress', options.onProgress, { phase: 'lookup', completed: ports.length, total: ports.length });
 
     if (unique.size === 0) {
         throw new ProcessNotFoundError(
@@ -313,9 +917,16 @@ export const killByPorts = async (ports: number[], options: KillOptions = {}): P
         );
     }
 
-    log.debug(`Found ${unique.size} unique PIDs across ${ports.length} ports`);
-    return await killByPids([...unique], options);
-};
+    log.debug(`Found ${unique.size} unique PIDs across ${ports.length} ports`, { operation: 'killByPorts' });
+    // A PID bound to several ports is attributed to the first one
+    const portOf = new Map<number, number>();
+    for (const [port, pids] of portPids) {
+        for (const pid of pids) if (!portOf.has(pid)) portOf.set(pid, port);
+    }
+
+    const results = await tagSelected(killByPids([...unique], withoutComplete(options)), pid => ({ port: portOf.get(pid) }));
+    return await completeAll(await awaitPortRelease(results, portPids, options), options);
+});
 
 /**
  * Kill all processes bound to ports within a range
@@ -325,10 +936,11 @@ export const killByPorts = async (ports: number[], options: KillOptions = {}): P
  * 
  * @param start - Starting port number (inclusive)
  * @param end - Ending port number (inclusive)
- * @param options - Kill options
+ * @param options - Kill options, port query (default: protocol 'tcp', state 'listen') and waitForRelease
  * @returns Array of KillResult for all PIDs found in the range
  * @throws {InvalidInputError} If range is invalid
  * @throws {ProcessNotFoundError} If no processes found in range
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
  * 
  * @example
  * ```typescript
@@ -340,7 +952,11 @@ export const killByPorts = async (ports: number[], options: KillOptions = {}): P
  * console.log(`Scanned ${3010-3000+1} ports, killed ${results.length} processes`);
  * ```
  */
-export const killByPortRange = async (start: number, end: number, options: KillOptions = {}): Promise<KillResult[]> => {
+export const killByPortRange = (
+    start: number,
+    end: number,
+    options: PortKillOptions = {}
+): Promise<KillResult[]> => withLogContext('killByPortRange', options.debug, async () => {
     // Validate range
     if (!Number.isInteger(start) || !Number.isInteger(end)) {
         throw new InvalidInputError("Start and end must be integers");
@@ -356,9 +972,9 @@ export const killByPortRange = async (start: number, end: number, options: KillO
     const ports: number[] = [];
     for (let p = start; p <= end; p++) ports.push(p);
 
-    log.debug(`Scanning port range ${start}-${end} (${ports.length} ports)`);
+    log.debug(`Scanning port range ${start}-${end} (${ports.length} ports)`, { operation: 'killByPortRange' });
     return await killByPorts(ports, options);
-};
+});
 
 /**
  * Kill processes by name or command pattern
@@ -371,6 +987,7 @@ export const killByPortRange = async (start: number, end: number, options: KillO
  * @returns Array of KillResult for all matching processes
  * @throws {InvalidInputError} If pattern is invalid
  * @throws {ProcessNotFoundError} If no matching processes found
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
  * 
  * @example
  * ```typescript
@@ -388,24 +1005,174 @@ export const killByPortRange = async (start: number, end: number, options: KillO
  * const results = await killByName('CHROME');
  * ```
  */
-export const killByName = async (
+export const killByName = (
     nameOrPattern: string,
     opts: FindByNameOptions & KillOptions = {}
-): Promise<KillResult[]> => {
-    const { timeoutMs, ...rest } = opts as KillOptions & FindByNameOptions;
+): Promise<KillResult[]> => withLogContext('killByName', opts.debug, async () => {
+    const { timeoutMs, abortSignal, ...rest } = opts as KillOptions & FindByNameOptions;
 
-    log.debug(`Searching for processes matching pattern: ${nameOrPattern}`);
-    const pids = await findPidsByName(
+    log.debug(`Searching for processes matching pattern: ${nameOrPattern}`, { operation: 'killByName' });
+    const pids = await withoutSelf(await findPidsByName(
         nameOrPattern,
         { useRegex: (opts as FindByNameOptions).useRegex },
-        timeoutMs
-    );
+        timeoutMs,
+        abortSignal
+    ), opts.force);
 
     if (pids.length === 0) {
         throw new ProcessNotFoundError(`No process matched pattern: ${nameOrPattern}`);
     }
 
-    log.debug(`Found ${pids.length} processes matching pattern: ${nameOrPattern}`);
-    return await killByPids(pids, rest as KillOptions);
-};
+    log.debug(`Found ${pids.length} processes matching pattern: ${nameOrPattern}`, { operation: 'killByName' });
+    const results = await tagSelected(
+        killByPids(pids, withoutComplete({ ...rest, abortSignal } as KillOptions)),
+        () => ({ pattern: nameOrPattern })
+    );
+    return await completeAll(results, opts);
+});
+
+
+/**
+ * Kill every process owned by a user
+ * 
+ * Selects processes like findPidsByUser() (optionally narrowed by `pattern`)
+ * and kills them through the regular batch pipeline (killByPids), so all
+ * KillOptions apply. Processes owned by root are never killed this way
+ * unless `allowRoot` is set: the whole call is refused instead.
+ * 
+ * @param user - User name or uid
+ * @param opts - Combined FindByUserOptions, KillOptions and allowRoot
+ * @returns Array of KillResult for all matching processes
+ * @throws {InvalidInputError} If user or pattern is invalid, or root processes are selected without allowRoot
+ * @throws {ProcessNotFoundError} If no process matched
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
+ * 
+ * @example
+ * ```typescript
+ * // Clean up everything the ci user left behind on a build agent
+ * const results = await killByUser('ci', { tree: true, forceAfterTimeout: true });
+ * 
+ * // Only its leftover test runners
+ * await killByUser('ci', { pattern: 'jest|vitest', useRegex: true });
+ * ```
+ */
+export const killByUser = (
+    user: string | number,
+    opts: KillByUserOptions = {}
+): Promise<KillResult[]> => withLogContext('killByUser', opts.debug, async () => {
+    const { pattern, useRegex, allowRoot = false, timeoutMs, abortSignal, ...rest } = opts;
+
+    if (!allowRoot && (user === 0 || user === '0' || user === 'root')) {
+        throw new InvalidInputError("Refusing to kill processes owned by root. Pass allowRoot: true to allow it.");
+    }
+
+    log.debug(`Searching for processes owned by user: ${user}`, { operation: 'killByUser' });
+    const found = await findProcessesByUser(user, { pattern, useRegex }, timeoutMs, abortSignal);
+    const kept = new Set(await withoutSelf(found.map(p => p.pid), rest.force));
+    const processes = found.filter(p => kept.has(p.pid));
+
+    if (processes.length === 0) {
+        throw new ProcessNotFoundError(`No process owned by user: ${user}${pattern !== undefined ? ` matched pattern: ${pattern}` : ''}`);
+    }
+
+    // A name can map to uid 0 too (e.g. "toor"), so check the owners found
+    if (!allowRoot && processes.some(p => p.uid === 0 || p.user === 'root')) {
+        throw new InvalidInputError(`Refusing to kill processes owned by root (user ${user}). Pass allowRoot: true to allow it.`);
+    }
+
+    log.debug(`Found ${processes.length} processes owned by user: ${user}`, { operation: 'killByUser' });
+    const results = await tagSelected(
+        killByPids(processes.map(p => p.pid), withoutComplete({ ...rest, timeoutMs, abortSignal } as KillOptions)),
+        () => (pattern !== undefined ? { user, pattern } : { user })
+    );
+    return await completeAll(results, opts);
+});
 
+/**
+ * Kill every process whose working directory is inside a directory
+ * 
+ * Selects processes like findPidsByCwd() and kills them through the regular
+ * batch pipeline (killByPids), so all KillOptions apply. Useful to stop the
+ * dev servers, watchers and test runners started from a repository without
+ * knowing their ports or names.
+ * 
+ * @param dir - Directory (relative paths are resolved against process.cwd())
+ * @param opts - Combined FindByCwdOptions and KillOptions
+ * @returns Array of KillResult for all matching processes
+ * @throws {InvalidInputError} If dir is empty
+ * @throws {ProcessNotFoundError} If no process runs inside the directory
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
+ * 
+ * @example
+ * ```typescript
+ * // Clean up everything started from this repo
+ * const results = await killByCwd('/home/me/monorepo', { tree: true, verify: true });
+ * 
+ * // Only processes started from the package folder itself
+ * await killByCwd('packages/web', { recursive: false });
+ * ```
+ */
+export const killByCwd = (
+    dir: string,
+    opts: FindByCwdOptions & KillOptions = {}
+): Promise<KillResult[]> => withLogContext('killByCwd', opts.debug, async () => {
+    const { recursive, timeoutMs, abortSignal, ...rest } = opts;
+
+    log.debug(`Searching for processes running in: ${dir}`, { operation: 'killByCwd' });
+    const pids = await withoutSelf(await findPidsByCwd(dir, { recursive }, timeoutMs, abortSignal), rest.force);
+
+    if (pids.length === 0) {
+        throw new ProcessNotFoundError(`No process running in directory: ${dir}`);
+    }
+
+    log.debug(`Found ${pids.length} processes running in: ${dir}`, { operation: 'killByCwd' });
+    const results = await tagSelected(
+        killByPids(pids, withoutComplete({ ...rest, timeoutMs, abortSignal } as KillOptions)),
+        () => ({ directory: dir })
+    );
+    return await completeAll(results, opts);
+});
+
+/**
+ * Kill every process holding a file or directory open
+ * 
+ * Selects processes like findPidsByFile() and kills them through the regular
+ * batch pipeline (killByPids), so all KillOptions apply. Use it when deleting
+ * a folder or a database file fails because some process still has it open.
+ * 
+ * @param path - File or directory (relative paths are resolved against process.cwd())
+ * @param opts - Combined FindByFileOptions and KillOptions
+ * @returns Array of KillResult for all holding processes
+ * @throws {InvalidInputError} If path is empty or the backend can't list open files
+ * @throws {ProcessNotFoundError} If no process holds the path
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
+ * 
+ * @example
+ * ```typescript
+ * // Release node_modules before deleting it
+ * await killByFile('node_modules', { recursive: true, verify: true });
+ * 
+ * // Free a locked SQLite database
+ * await killByFile('./data/app.db');
+ * ```
+ */
+export const killByFile = (
+    path: string,
+    opts: FindByFileOptions & KillOptions = {}
+): Promise<KillResult[]> => withLogContext('killByFile', opts.debug, async () => {
+    const { recursive, timeoutMs, abortSignal, ...rest } = opts;
+
+    log.debug(`Searching for processes holding: ${path}`, { operation: 'killByFile' });
+    const pids = await withoutSelf(await findPidsByFile(path, { recursive }, timeoutMs, abortSignal), rest.force);
+
+    if (pids.length === 0) {
+        throw new ProcessNotFoundError(`No process holds: ${path}`);
+    }
+
+    log.debug(`Found ${pids.length} processes holding: ${path}`, { operation: 'killByFile' });
+    const results = await tagSelected(
+        killByPids(pids, withoutComplete({ ...rest, timeoutMs, abortSignal } as KillOptions)),
+        () => ({ file: path })
+    );
+    return await completeAll(results, opts);
+});
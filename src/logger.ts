@@ -1,98 +1,266 @@
 /**
- * Debug logging system with configurable levels
+ * Logging system with configurable levels, sinks and formats
+ * Each public operation runs in its own log context (AsyncLocalStorage),
+ * so per-call debug output and operation ids never leak into other calls
  * @module logger
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { InvalidInputError } from './errors';
+import type { LogFields, LoggerOptions, LogLevel, LogRecord, LogSink } from './types';
+
+/**
+ * Numeric severity of each level, used for filtering
+ */
+const LEVEL_ORDER: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: Infinity,
+};
+
 /**
- * Global debug flag
- * Can be toggled using setDebug() function
+ * Current logger configuration
+ * Changed with setLogger() and setDebug()
  */
-let debugEnabled = false;
+let config: { sink: LogSink | null; level: LogLevel; format: 'text' | 'json' } = {
+    sink: null,
+    level: 'info',
+    format: 'text',
+};
+
+/**
+ * Context of the operation currently running
+ * - operationId: random id shared by every log line of the operation
+ * - operation: name of the outermost public function
+ * - debug: debug output requested for this operation only
+ */
+interface LogContext {
+    operationId: string;
+    operation: string;
+    debug: boolean;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Built-in console output
+ * debug/info go to stdout, warn/error to stderr
+ */
+const writeConsole = (record: LogRecord): void => {
+    const line = config.format === 'json'
+        ? JSON.stringify(record)
+        : `[kproc:${record.level}]${record.operationId ? ` [${record.operationId}]` : ''} ${record.message}`;
+
+    if (record.level === 'error') console.error(line);
+    else if (record.level === 'warn') console.warn(line);
+    else console.log(line);
+};
+
+/**
+ * Filter a log line by level and hand it to the active sink
+ * A failing sink never breaks the operation that is logging
+ */
+const emit = (level: Exclude<LogLevel, 'silent'>, message: string, fields: LogFields = {}): void => {
+    const context = logContext.getStore();
+    const threshold = context?.debug ? 'debug' : config.level;
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[threshold]) return;
+
+    const allFields: LogFields = { operation: context?.operation, operationId: context?.operationId, ...fields };
+    const record: LogRecord = { level, message, time: Date.now(), ...allFields };
+    const { sink } = config;
+
+    try {
+        if (!sink) writeConsole(record);
+        else if (typeof sink === 'function') sink(record);
+        else if (typeof sink.log === 'function') sink.log(level, message, allFields);
+        else sink[level](allFields, message);
+    } catch {
+        // Logging must not affect process management
+    }
+};
 
 /**
  * Logger interface with different log levels
- * All logs are prefixed with [kproc:level] for easy filtering
- * 
+ * Output goes to the sink configured with setLogger() (console by default)
+ *
  * @example
  * ```typescript
  * import { log } from './logger';
- * 
- * log.debug('Detailed debug info');  // Only shown if debug enabled
- * log.info('General information');   // Always shown
- * log.warn('Warning message');       // Always shown
- * log.error('Error occurred');       // Always shown
+ *
+ * log.debug('Detailed debug info');                      // Only shown at level "debug"
+ * log.info('General information');                       // Shown at level "info" (default)
+ * log.warn('Warning message', { pid: 1234 });            // With structured fields
+ * log.error('Error occurred', { operation: 'killByPid' });
  * ```
  */
 export const log = {
     /**
      * Debug level logging - only shown when debug is enabled
      * Use for detailed troubleshooting information
-     * 
-     * @param args - Any values to log
+     *
+     * @param message - Log message
+     * @param fields - Optional structured context (pid, port, operation)
      */
-    debug: (...args: any[]): void => {
-        if (debugEnabled) {
-            console.log('[kproc:debug]', ...args);
-        }
-    },
+    debug: (message: string, fields?: LogFields): void => emit('debug', message, fields),
 
     /**
-     * Info level logging - always shown
+     * Info level logging
      * Use for general informational messages
-     * 
-     * @param args - Any values to log
+     *
+     * @param message - Log message
+     * @param fields - Optional structured context (pid, port, operation)
      */
-    info: (...args: any[]): void => {
-        console.log('[kproc:info]', ...args);
-    },
+    info: (message: string, fields?: LogFields): void => emit('info', message, fields),
 
     /**
-     * Warning level logging - always shown
+     * Warning level logging
      * Use for non-critical issues that should be noted
-     * 
-     * @param args - Any values to log
+     *
+     * @param message - Log message
+     * @param fields - Optional structured context (pid, port, operation)
      */
-    warn: (...args: any[]): void => {
-        console.warn('[kproc:warn]', ...args);
-    },
+    warn: (message: string, fields?: LogFields): void => emit('warn', message, fields),
 
     /**
-     * Error level logging - always shown
+     * Error level logging
      * Use for critical errors and failures
-     * 
-     * @param args - Any values to log
+     *
+     * @param message - Log message
+     * @param fields - Optional structured context (pid, port, operation)
      */
-    error: (...args: any[]): void => {
-        console.error('[kproc:error]', ...args);
-    },
+    error: (message: string, fields?: LogFields): void => emit('error', message, fields),
 };
 
+/**
+ * Configure where and how kproc logs
+ *
+ * Omitted options keep their current value.
+ *
+ * @param options - Sink, minimum level and console line format
+ * @throws {InvalidInputError} If level or format is not recognized
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ * import winston from 'winston';
+ * import { setLogger } from 'kproc';
+ *
+ * // Forward to pino (logger.info(fields, message))
+ * setLogger({ sink: pino() });
+ *
+ * // winston is called through logger.log(level, message, meta)
+ * setLogger({ sink: winston.createLogger({ transports: [new winston.transports.Console()] }) });
+ *
+ * // Collect structured records
+ * setLogger({ sink: (record) => records.push(record) });
+ *
+ * // JSON lines on the console, warnings and errors only
+ * setLogger({ sink: null, format: 'json', level: 'warn' });
+ *
+ * // No output at all
+ * setLogger({ level: 'silent' });
+ * ```
+ */
+export const setLogger = (options: LoggerOptions): void => {
+    const { level, format } = options;
+    if (level !== undefined && !(level in LEVEL_ORDER)) {
+        throw new InvalidInputError(`Invalid log level: ${level}. Must be one of ${Object.keys(LEVEL_ORDER).join(', ')}.`);
+    }
+    if (format !== undefined && format !== 'text' && format !== 'json') {
+        throw new InvalidInputError(`Invalid log format: ${format}. Must be 'text' or 'json'.`);
+    }
+
+    config = {
+        sink: options.sink !== undefined ? options.sink : config.sink,
+        level: level ?? config.level,
+        format: format ?? config.format,
+    };
+};
+
+/**
+ * Get the minimum level currently emitted
+ *
+ * @returns Active log level
+ */
+export const getLogLevel = (): LogLevel => config.level;
+
 /**
  * Enable or disable debug logging globally
- * When enabled, all log.debug() calls will output to console
- * 
+ * Shorthand for setLogger({ level: 'debug' }); disabling returns to "info"
+ * unless another level was chosen in the meantime
+ *
  * @param enabled - True to enable debug logs, false to disable
- * 
+ *
  * @example
  * ```typescript
  * import { setDebug } from 'kproc';
- * 
+ *
  * // Enable debug logging for development
  * setDebug(true);
- * 
+ *
  * // Disable for production
  * setDebug(false);
  * ```
  */
 export const setDebug = (enabled: boolean): void => {
-    debugEnabled = enabled;
-    log.info(`Debug logging ${enabled ? 'enabled' : 'disabled'}`);
+    if (enabled) {
+        config.level = 'debug';
+        log.debug('Debug logging enabled');
+    } else if (config.level === 'debug') {
+        config.level = 'info';
+    }
 };
 
 /**
  * Check if debug logging is currently enabled
- * 
+ *
  * @returns True if debug logging is enabled
  */
-export const isDebugEnabled = (): boolean => debugEnabled;
+export const isDebugEnabled = (): boolean => config.level === 'debug';
 
+/**
+ * Run an operation inside its own log context
+ *
+ * Nested calls (e.g. killByPid inside killByPort) join the outer context
+ * and keep its operation id. `debug` enables debug output for this call
+ * and everything it awaits, without touching the global level.
+ *
+ * @param operation - Public function name, reported in log records
+ * @param debug - Per-operation debug flag (KillOptions.debug)
+ * @param fn - Operation body
+ * @returns Result of fn
+ *
+ * @internal
+ */
+export const withLogContext = <T>(
+    operation: string,
+    debug: boolean | undefined,
+    fn: () => Promise<T>
+): Promise<T> => {
+    const parent = logContext.getStore();
+    if (parent && (parent.debug || !debug)) return fn();
+
+    return logContext.run({
+        operationId: parent?.operationId ?? randomBytes(4).toString('hex'),
+        operation: parent?.operation ?? operation,
+        debug: debug === true || parent?.debug === true,
+    }, fn);
+};
+
+/**
+ * Get the id of the kproc operation currently running
+ * Useful inside lifecycle hooks to correlate your own logs with kproc's
+ *
+ * @returns Operation id, or undefined outside a kproc operation
+ *
+ * @example
+ * ```typescript
+ * await killByPort(3000, {
+ *   onComplete: (result) => audit.log({ op: getOperationId(), ...result }),
+ * });
+ * ```
+ */
+export const getOperationId = (): string | undefined => logContext.getStore()?.operationId;
@@ -4,26 +4,163 @@
  * @module lookup
  */
 
+import { promises as fs } from 'fs';
+import { resolve, sep } from 'path';
+import { getBackend } from './backend';
 import { getCached } from './cache';
-import { CommandExecutionError, InvalidInputError, ProcessNotFoundError } from './errors';
-import { log } from './logger';
-import type { FindByNameOptions, ProcessInfo } from './types';
-import { buildMatcher, execText, isWindows, parsePortFromAddress, parsePortFromLsof, parseWindowsPsJson } from './utils';
+import { AbortError, CommandExecutionError, InvalidInputError, ProcessNotFoundError } from './errors';
+import { log, withLogContext } from './logger';
+import type {
+    FindByCwdOptions, FindByFileOptions, FindByNameOptions, FindByUserOptions, OpenFileInfo, PortQueryOptions, ProcessInfo,
+    ProcessInfoOptions, SocketInfo
+} from './types';
+import { buildMatcher, matchesPortQuery, matchesUser, throwIfAborted, validatePortQuery } from './utils';
+
+/**
+ * Take a snapshot of every running process with ONE system call
+ * 
+ * Uses the active backend:
+ * - Linux: /proc (no child process spawned)
+ * - Windows: a single PowerShell Get-CimInstance Win32_Process query
+ * - Unix: a single ps -A
+ * 
+ * The snapshot is not cached; use it as the basis for several in-memory
+ * queries (tree building, filtering) instead of calling it repeatedly.
+ * 
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns ProcessInfo for every process (ports not included)
+ * @throws {CommandExecutionError} If the process list command fails
+ * @throws {AbortError} If the signal is aborted
+ * 
+ * @example
+ * ```typescript
+ * const processes = await listProcesses();
+ * const nodes = processes.filter(p => p.name === 'node');
+ * console.log(`${nodes.length} of ${processes.length} processes are node`);
+ * ```
+ */
+export const listProcesses = (
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<ProcessInfo[]> => withLogContext('listProcesses', false, async () => {
+    const processes = await getBackend().listProcesses(timeoutMs, abortSignal);
+    log.debug(`Process snapshot contains ${processes.length} processes`, { operation: 'listProcesses' });
+    return processes;
+});
+
+/**
+ * Query the sockets bound to a local port, bypassing the cache
+ * 
+ * @param port - Port number
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Sockets on the port (empty if none or the command failed)
+ * 
+ * @internal
+ */
+export const queryPortSockets = async (
+    port: number,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<SocketInfo[]> => {
+    try {
+        return await getBackend().listSockets({ port }, timeoutMs, abortSignal);
+    } catch (error) {
+        if (error instanceof CommandExecutionError) {
+            // Command failed - likely no processes on that port
+            log.debug(`No processes found on port ${port}`, { operation: 'findPidsByPort', port });
+            return [];
+        }
+        throw error;
+    }
+};
+
+/**
+ * Take a snapshot of every socket with ONE system call, bypassing the cache
+ * 
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Every socket (empty if the command failed)
+ * 
+ * @internal
+ */
+const querySocketTable = async (timeoutMs?: number, abortSignal?: AbortSignal): Promise<SocketInfo[]> => {
+    try {
+        return await getBackend().listSockets({}, timeoutMs, abortSignal);
+    } catch (error) {
+        if (error instanceof CommandExecutionError) {
+            log.debug(`Socket table lookup failed: ${error.message}`, { operation: 'getSocketTable' });
+            return [];
+        }
+        throw error;
+    }
+};
+
+/**
+ * Map every local port to the sockets bound to it, from ONE snapshot
+ * 
+ * Uses a single call of the active backend:
+ * - Linux: /proc/net/{tcp,udp}{,6} matched against /proc/<pid>/fd socket inodes
+ * - Windows: netstat -ano
+ * - Unix: lsof -nP -i
+ * 
+ * The snapshot is cached for the configured TTL (see configureCache;
+ * default 1s) and shared by findPidsByPort, killByPorts and
+ * killByPortRange, so resolving 1000 ports costs one command instead of 1000.
+ * 
+ * @param timeoutMs - Optional command timeout
+ * @param query - Optional protocol/state filter (default: any protocol, any state)
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Map of local port → sockets (ports without a matching socket are absent)
+ * @throws {InvalidInputError} If the query is invalid
+ * @throws {AbortError} If the signal is aborted
+ * 
+ * @example
+ * ```typescript
+ * const table = await getSocketTable(undefined, { protocol: 'tcp', state: 'listen' });
+ * for (const [port, sockets] of table) {
+ *   console.log(port, sockets.map(s => s.pid));
+ * }
+ * ```
+ */
+export const getSocketTable = (
+    timeoutMs?: number,
+    query: PortQueryOptions = {},
+    abortSignal?: AbortSignal
+): Promise<Map<number, SocketInfo[]>> => withLogContext('getSocketTable', false, async () => {
+    validatePortQuery(query);
+
+    const sockets = await getCached('sockets', () => querySocketTable(timeoutMs, abortSignal));
+    const table = new Map<number, SocketInfo[]>();
+    for (const socket of sockets) {
+        if (!matchesPortQuery(socket, query)) continue;
+        const onPort = table.get(socket.port);
+        if (onPort) onPort.push(socket);
+        else table.set(socket.port, [socket]);
+    }
+
+    log.debug(`Socket table has ${sockets.length} sockets on ${table.size} matching ports`, { operation: 'getSocketTable' });
+    return table;
+});
 
 /**
  * Find all process IDs (PIDs) bound to a specific port
  * 
- * Uses platform-specific commands:
- * - Windows: netstat -ano | findstr :<port>
- * - Unix: lsof -t -i :<port>
+ * Resolved from the socket-table snapshot (see getSocketTable), so
+ * looking up several ports within the cache TTL (see configureCache;
+ * default 1s) costs one system call.
  * 
- * Results are cached for 1 second to improve performance when
- * multiple operations query the same port.
+ * Only the LOCAL port is matched, so clients merely connected to a remote
+ * port are not returned. Use `query` to narrow by protocol and TCP state.
  * 
  * @param port - Port number (1-65535)
  * @param timeoutMs - Optional command timeout
+ * @param query - Optional protocol/state filter (default: any protocol, any state)
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
  * @returns Array of PIDs bound to the port (empty if none)
- * @throws {InvalidInputError} If port number is invalid
+ * @throws {InvalidInputError} If port number or query is invalid
+ * @throws {AbortError} If the signal is aborted
  * 
  * @example
  * ```typescript
@@ -33,60 +170,26 @@ import { buildMatcher, execText, isWindows, parsePortFromAddress, parsePortFromL
  * 
  * // With timeout
  * const pids = await findPidsByPort(8080, 5000);
+ * 
+ * // Only the Postgres server, not apps connected to it
+ * const servers = await findPidsByPort(5432, undefined, { protocol: 'tcp', state: 'listen' });
  * ```
  */
-export const findPidsByPort = async (port: number, timeoutMs?: number): Promise<number[]> => {
+export const findPidsByPort = (
+    port: number,
+    timeoutMs?: number,
+    query: PortQueryOptions = {},
+    abortSignal?: AbortSignal
+): Promise<number[]> => withLogContext('findPidsByPort', false, async () => {
     // Validate port number
     if (!Number.isInteger(port) || port < 1 || port > 65535) {
         throw new InvalidInputError(`Invalid port number: ${port}. Must be between 1 and 65535.`);
     }
+    validatePortQuery(query);
 
-    // Use cache to reduce redundant system calls
-    return await getCached(`port:${port}`, async () => {
-        try {
-            const stdout = await execText(
-                isWindows
-                    ? `netstat -ano | findstr :${port}`
-                    : `lsof -t -i :${port}`,
-                timeoutMs
-            );
-
-            if (!stdout.trim()) return [];
-
-            const pids = new Set<number>();
-            const lines = stdout.trim().split(/\r?\n/).filter(Boolean);
-
-            if (isWindows) {
-                // Parse Windows netstat output
-                // Format: TCP  0.0.0.0:3000  0.0.0.0:0  LISTENING  1234
-                for (const line of lines) {
-                    const parts = line.trim().split(/\s+/);
-                    const pidNum = Number(parts[parts.length - 1]);
-                    if (!Number.isNaN(pidNum) && pidNum > 0) {
-                        pids.add(pidNum);
-                    }
-                }
-            } else {
-                // Parse Unix lsof output (already filtered to just PIDs)
-                for (const line of lines) {
-                    const pidNum = Number(line.trim());
-                    if (!Number.isNaN(pidNum) && pidNum > 0) {
-                        pids.add(pidNum);
-                    }
-                }
-            }
-
-            return [...pids];
-        } catch (error) {
-            if (error instanceof CommandExecutionError) {
-                // Command failed - likely no processes on that port
-                log.debug(`No processes found on port ${port}`);
-                return [];
-            }
-            throw error;
-        }
-    });
-};
+    const table = await getSocketTable(timeoutMs, query, abortSignal);
+    return [...new Set((table.get(port) || []).map(s => s.pid))];
+});
 
 /**
  * Find the main (first) process ID bound to a port
@@ -94,6 +197,8 @@ export const findPidsByPort = async (port: number, timeoutMs?: number): Promise<
  * 
  * @param port - Port number
  * @param timeoutMs - Optional command timeout
+ * @param query - Optional protocol/state filter (default: any protocol, any state)
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
  * @returns The first PID found on the port
  * @throws {ProcessNotFoundError} If no process found on port
  * @throws {InvalidInputError} If port number is invalid
@@ -108,8 +213,13 @@ export const findPidsByPort = async (port: number, timeoutMs?: number): Promise<
  * }
  * ```
  */
-export const findPidByPort = async (port: number, timeoutMs?: number): Promise<number> => {
-    const pids = await findPidsByPort(port, timeoutMs);
+export const findPidByPort = async (
+    port: number,
+    timeoutMs?: number,
+    query: PortQueryOptions = {},
+    abortSignal?: AbortSignal
+): Promise<number> => {
+    const pids = await findPidsByPort(port, timeoutMs, query, abortSignal);
 
     if (pids.length === 0) {
         throw new ProcessNotFoundError(`No process found on port ${port}`);
@@ -125,15 +235,17 @@ export const findPidByPort = async (port: number, timeoutMs?: number): Promise<n
  * - Process name (executable name)
  * - Full command line with arguments
  * 
- * Uses platform-specific commands:
+ * Resolved through the active backend's process list:
+ * - Linux: /proc/<pid>/stat and /proc/<pid>/cmdline
  * - Windows: PowerShell Get-CimInstance Win32_Process
  * - Unix: ps -A with pid, comm, args
  * 
- * Results are cached for 1 second.
+ * Results are cached for the configured TTL (see configureCache; default 1s).
  * 
  * @param nameOrPattern - String to match (substring or regex)
  * @param opts - Options: { useRegex?: boolean }
  * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
  * @returns Array of matching PIDs
  * @throws {InvalidInputError} If pattern is invalid
  * @throws {ProcessNotFoundError} If lookup command fails
@@ -150,11 +262,12 @@ export const findPidByPort = async (port: number, timeoutMs?: number): Promise<n
  * const chromePids = await findPidsByName('chrome');
  * ```
  */
-export const findPidsByName = async (
+export const findPidsByName = (
     nameOrPattern: string,
     opts: FindByNameOptions = {},
-    timeoutMs?: number
-): Promise<number[]> => {
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> => withLogContext('findPidsByName', false, async () => {
     if (!nameOrPattern || typeof nameOrPattern !== 'string') {
         throw new InvalidInputError("Name or pattern must be a non-empty string");
     }
@@ -172,39 +285,12 @@ export const findPidsByName = async (
     // Use cache to reduce expensive process list queries
     return await getCached(`name:${nameOrPattern}:${useRegex}`, async () => {
         try {
-            if (isWindows) {
-                // Windows: Get all processes with name and command line
-                const psCmd = `powershell -NoProfile -Command "Get-CimInstance Win32_Process | Select-Object ProcessId,Name,CommandLine | ConvertTo-Json -Compress"`;
-                const out = await execText(psCmd, timeoutMs);
-                const arr = parseWindowsPsJson(out);
-
-                // Filter processes where name OR command line matches
-                return arr
-                    .filter(p => matcher(p.Name) || matcher(p.CommandLine || ""))
-                    .map(p => p.ProcessId);
-            } else {
-                // Unix: Use ps to get all processes
-                const out = await execText(`ps -A -o pid=,comm=,args=`, timeoutMs);
-                const lines = out.split(/\r?\n/).filter(Boolean);
-                const pids: number[] = [];
-
-                // Parse each line: PID COMM ARGS
-                for (const line of lines) {
-                    const match = line.match(/^\s*(\d+)\s+([^\s]+)\s+(.+)$/);
-                    if (!match) continue;
-
-                    const pid = Number(match[1]);
-                    const comm = match[2];  // Command name
-                    const args = match[3];  // Full arguments
-
-                    // Match against either comm or full args
-                    if (matcher(comm) || matcher(args)) {
-                        pids.push(pid);
-                    }
-                }
-
-                return pids;
-            }
+            const processes = await listProcesses(timeoutMs, abortSignal);
+
+            // Match against either the process name or the full command line
+            return processes
+                .filter(p => matcher(p.name || "") || matcher(p.command || ""))
+                .map(p => p.pid);
         } catch (error) {
             if (error instanceof CommandExecutionError) {
                 throw new ProcessNotFoundError(`Failed to find processes by name: ${error.message}`);
@@ -212,19 +298,277 @@ export const findPidsByName = async (
             throw error;
         }
     });
+});
+
+/**
+ * Select the processes owned by a user, optionally narrowed by a name pattern
+ * Uncached, so callers deciding what to kill see the current owners
+ * 
+ * @param user - User name or uid
+ * @param opts - Optional name/command pattern
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Matching processes
+ * @throws {InvalidInputError} If user or pattern is invalid
+ * 
+ * @internal
+ */
+export const findProcessesByUser = async (
+    user: string | number,
+    opts: FindByUserOptions = {},
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<ProcessInfo[]> => {
+    const validUid = typeof user === 'number' && Number.isInteger(user) && user >= 0;
+    if (!validUid && (typeof user !== 'string' || !user)) {
+        throw new InvalidInputError(`Invalid user: ${user}. Must be a user name or a non-negative integer uid.`);
+    }
+
+    let matcher: ((s: string) => boolean) | undefined;
+    if (opts.pattern !== undefined) {
+        try {
+            matcher = buildMatcher(opts.pattern, opts.useRegex === true);
+        } catch (error) {
+            throw new InvalidInputError(`Invalid pattern: ${(error as Error).message}`);
+        }
+    }
+
+    try {
+        const processes = await listProcesses(timeoutMs, abortSignal);
+        return processes.filter(p =>
+            matchesUser(p, user) && (!matcher || matcher(p.name || "") || matcher(p.command || ""))
+        );
+    } catch (error) {
+        if (error instanceof CommandExecutionError) {
+            throw new ProcessNotFoundError(`Failed to find processes by user: ${error.message}`);
+        }
+        throw error;
+    }
+};
+
+/**
+ * Find PIDs of processes owned by a user
+ * 
+ * The user can be given as a name or a uid (Unix only; Windows reports no
+ * owner, so nothing matches). Combine it with a name or command pattern
+ * that works like findPidsByName().
+ * 
+ * Results are cached for the configured TTL (see configureCache; default 1s).
+ * 
+ * @param user - User name or uid
+ * @param opts - Options: { pattern?: string, useRegex?: boolean }
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Array of matching PIDs
+ * @throws {InvalidInputError} If user or pattern is invalid
+ * @throws {ProcessNotFoundError} If lookup command fails
+ * 
+ * @example
+ * ```typescript
+ * // Everything the ci user left behind
+ * const pids = await findPidsByUser('ci');
+ * 
+ * // Only its node processes, by uid
+ * const nodePids = await findPidsByUser(1001, { pattern: 'node' });
+ * ```
+ */
+export const findPidsByUser = (
+    user: string | number,
+    opts: FindByUserOptions = {},
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> => withLogContext('findPidsByUser', false, async () => {
+    const { pattern, useRegex = false } = opts;
+
+    return await getCached(`user:${user}:${pattern ?? ''}:${useRegex}`, async () =>
+        (await findProcessesByUser(user, { pattern, useRegex }, timeoutMs, abortSignal)).map(p => p.pid)
+    );
+});
+
+/**
+ * Resolve a path the way the system reports working directories and open files
+ * (absolute, symlinks resolved); a missing path is only made absolute
+ * @internal
+ */
+const resolvePath = async (target: string): Promise<string> => {
+    const absolute = resolve(target);
+    try {
+        return await fs.realpath(absolute);
+    } catch {
+        return absolute;
+    }
 };
 
+/**
+ * Read the working directory of every process
+ * Backends without listWorkingDirectories() fall back to the cwd field of the process list
+ * @internal
+ */
+const queryWorkingDirectories = async (timeoutMs?: number, abortSignal?: AbortSignal): Promise<Map<number, string>> => {
+    const backend = getBackend();
+    if (backend.listWorkingDirectories) return backend.listWorkingDirectories(timeoutMs, abortSignal);
+
+    const processes = await listProcesses(timeoutMs, abortSignal);
+    return new Map(processes.filter(p => p.cwd).map(p => [p.pid, p.cwd!]));
+};
+
+/**
+ * Find PIDs of processes whose working directory is inside a directory
+ * 
+ * The directory is resolved to an absolute path with symlinks resolved,
+ * like the paths the system reports. Processes we may not inspect (other
+ * users' processes without root) are not found. Not available on Windows.
+ * 
+ * Results are cached for the configured TTL (see configureCache; default 1s).
+ * 
+ * @param dir - Directory (relative paths are resolved against process.cwd())
+ * @param opts - Options: { recursive?: boolean } (default true: subdirectories match too)
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Array of matching PIDs
+ * @throws {InvalidInputError} If dir is empty
+ * @throws {ProcessNotFoundError} If lookup command fails
+ * 
+ * @example
+ * ```typescript
+ * // Everything started from anywhere in the monorepo
+ * const pids = await findPidsByCwd('/home/me/monorepo');
+ * 
+ * // Only processes started from the package folder itself
+ * const web = await findPidsByCwd('packages/web', { recursive: false });
+ * ```
+ */
+export const findPidsByCwd = (
+    dir: string,
+    opts: FindByCwdOptions = {},
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> => withLogContext('findPidsByCwd', false, async () => {
+    if (!dir || typeof dir !== 'string') {
+        throw new InvalidInputError("Directory must be a non-empty string");
+    }
+
+    const { recursive = true } = opts;
+    const root = await resolvePath(dir);
+    const prefix = root.endsWith(sep) ? root : root + sep;
+
+    return await getCached(`cwd:${root}:${recursive}`, async () => {
+        try {
+            const cwds = await queryWorkingDirectories(timeoutMs, abortSignal);
+            return [...cwds]
+                .filter(([, cwd]) => cwd === root || (recursive && cwd.startsWith(prefix)))
+                .map(([pid]) => pid);
+        } catch (error) {
+            if (error instanceof CommandExecutionError) {
+                throw new ProcessNotFoundError(`Failed to find processes by working directory: ${error.message}`);
+            }
+            throw error;
+        }
+    });
+});
+
+/**
+ * Find the processes holding a file or directory open
+ * 
+ * Reports each holder with its file descriptor and access mode, including
+ * processes using a directory as working directory. The path is resolved to
+ * an absolute path with symlinks resolved. Processes we may not inspect
+ * (other users' processes without root) are not found.
+ * 
+ * Resolved through the active backend:
+ * - Linux: /proc/<pid>/fd links and fdinfo flags
+ * - Unix: lsof -- <path> (lsof +D <path> when recursive)
+ * - Windows: not supported
+ * 
+ * Results are cached for the configured TTL (see configureCache; default 1s).
+ * 
+ * @param path - File or directory (relative paths are resolved against process.cwd())
+ * @param opts - Options: { recursive?: boolean } (default false: only the path itself)
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Open files matching the path, one per descriptor
+ * @throws {InvalidInputError} If path is empty or the backend can't list open files
+ * @throws {ProcessNotFoundError} If lookup command fails
+ * 
+ * @example
+ * ```typescript
+ * // Who keeps the SQLite database open, and for writing?
+ * const holders = await findFileHolders('./data/app.db');
+ * holders.forEach(f => console.log(f.pid, f.fd, f.mode)); // 4242 7 'readwrite'
+ * ```
+ */
+export const findFileHolders = (
+    path: string,
+    opts: FindByFileOptions = {},
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<OpenFileInfo[]> => withLogContext('findFileHolders', false, async () => {
+    if (!path || typeof path !== 'string') {
+        throw new InvalidInputError("Path must be a non-empty string");
+    }
+
+    const backend = getBackend();
+    if (!backend.listOpenFiles) {
+        throw new InvalidInputError(`Open file lookups are not supported by the ${backend.name} backend`);
+    }
+
+    const { recursive = false } = opts;
+    const target = await resolvePath(path);
+
+    return await getCached(`file:${target}:${recursive}`, async () => {
+        try {
+            const files = await backend.listOpenFiles!({ path: target, recursive }, timeoutMs, abortSignal);
+            log.debug(`Found ${files.length} open files for ${target}`, { operation: 'findFileHolders' });
+            return files;
+        } catch (error) {
+            if (error instanceof CommandExecutionError) {
+                throw new ProcessNotFoundError(`Failed to find processes holding ${target}: ${error.message}`);
+            }
+            throw error;
+        }
+    });
+});
+
+/**
+ * Find PIDs of processes holding a file or directory open
+ * 
+ * Same lookup as findFileHolders(), reduced to unique PIDs.
+ * 
+ * @param path - File or directory (relative paths are resolved against process.cwd())
+ * @param opts - Options: { recursive?: boolean } (default false: only the path itself)
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Array of PIDs holding the path
+ * @throws {InvalidInputError} If path is empty or the backend can't list open files
+ * @throws {ProcessNotFoundError} If lookup command fails
+ * 
+ * @example
+ * ```typescript
+ * // Why does `rm -rf node_modules` fail?
+ * const pids = await findPidsByFile('node_modules', { recursive: true });
+ * ```
+ */
+export const findPidsByFile = async (
+    path: string,
+    opts: FindByFileOptions = {},
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> =>
+    [...new Set((await findFileHolders(path, opts, timeoutMs, abortSignal)).map(f => f.pid))];
+
 /**
  * Reverse lookup: Find all ports used by a specific PID
  * 
  * Useful for discovering what ports a process is listening on or connected to.
  * 
- * Uses platform-specific commands:
+ * Resolved through the active backend's socket list:
+ * - Linux: /proc/<pid>/fd socket inodes matched against /proc/net/tcp{,6}
  * - Windows: netstat -ano filtered by PID
- * - Unix: lsof -Pan -p <pid> -i
+ * - Unix: lsof -nP -a -p <pid> -i
  * 
  * @param pid - Process ID to lookup
  * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
  * @returns Array of port numbers (empty if process has no network activity)
  * @throws {InvalidInputError} If PID is invalid
  * @throws {ProcessNotFoundError} If lookup fails
@@ -239,54 +583,27 @@ export const findPidsByName = async (
  * const myPorts = await findPortsByPid(process.pid);
  * ```
  */
-export const findPortsByPid = async (pid: number, timeoutMs?: number): Promise<number[]> => {
+export const findPortsByPid = (
+    pid: number,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> => withLogContext('findPortsByPid', false, async () => {
     if (!Number.isInteger(pid) || pid <= 0) {
         throw new InvalidInputError(`Invalid PID: ${pid}. Must be a positive integer.`);
     }
 
     try {
-        if (isWindows) {
-            // Windows: Filter netstat output by PID
-            const out = await execText(`netstat -ano | findstr ${pid}`, timeoutMs);
-            const ports = new Set<number>();
-
-            for (const line of out.split(/\r?\n/)) {
-                if (!line.trim()) continue;
-
-                const parts = line.trim().split(/\s+/);
-                const linePid = Number(parts[parts.length - 1]);
-
-                // Only process lines for our target PID
-                if (linePid !== pid) continue;
-
-                // Extract port from local address (column 2)
-                const localAddr = parts[1];
-                const port = parsePortFromAddress(localAddr);
-                if (port) ports.add(port);
-            }
-
-            return [...ports];
-        } else {
-            // Unix: Use lsof to get network connections for this PID
-            const out = await execText(`lsof -Pan -p ${pid} -i`, timeoutMs);
-            const ports = new Set<number>();
-
-            for (const line of out.split(/\r?\n/)) {
-                const port = parsePortFromLsof(line);
-                if (port) ports.add(port);
-            }
-
-            return [...ports];
-        }
+        const sockets = await getBackend().listSockets({ pid }, timeoutMs, abortSignal);
+        return [...new Set(sockets.map(s => s.port))];
     } catch (error) {
         if (error instanceof CommandExecutionError) {
             // Command failed - process might not exist or have no network activity
-            log.debug(`No ports found for PID ${pid}`);
+            log.debug(`No ports found for PID ${pid}`, { operation: 'findPortsByPid', pid });
             return [];
         }
         throw error;
     }
-};
+});
 
 /**
  * Get comprehensive information about a process
@@ -294,11 +611,13 @@ export const findPortsByPid = async (pid: number, timeoutMs?: number): Promise<n
  * Retrieves all available information:
  * - Process name and full command line
  * - Associated ports (via findPortsByPid)
- * - Parent process ID
+ * - Parent process ID, owner (user and uid), state, start time and age
  * - Resource usage (CPU, memory) - platform dependent
+ * - Working directory and executable path, when requested in options
  * 
  * @param pid - Process ID to get info for
- * @param timeoutMs - Optional command timeout
+ * @param options - Command timeout, or options selecting the extra paths
+ * @param abortSignal - Optional AbortSignal to cancel the lookup (when options is a timeout)
  * @returns ProcessInfo object with all available details
  * @throws {InvalidInputError} If PID is invalid
  * @throws {ProcessNotFoundError} If process doesn't exist
@@ -312,54 +631,44 @@ export const findPortsByPid = async (pid: number, timeoutMs?: number): Promise<n
  *   Ports: ${info.ports?.join(', ')}
  *   Memory: ${info.memoryUsage}
  *   Parent: ${info.parentPid}
+ *   State: ${info.state}
  * `);
+ * 
+ * // Paths cost an extra read, so they are opt-in
+ * const { cwd, exe } = await getProcessInfo(1234, { cwd: true, exe: true });
  * ```
  */
-export const getProcessInfo = async (pid: number, timeoutMs?: number): Promise<ProcessInfo> => {
+export const getProcessInfo = (
+    pid: number,
+    options?: number | ProcessInfoOptions,
+    abortSignal?: AbortSignal
+): Promise<ProcessInfo> => withLogContext('getProcessInfo', false, async () => {
     if (!Number.isInteger(pid) || pid <= 0) {
         throw new InvalidInputError(`Invalid PID: ${pid}. Must be a positive integer.`);
     }
 
-    log.debug(`Getting info for PID ${pid}`);
+    const { cwd = false, exe = false, timeoutMs, abortSignal: signal = abortSignal } =
+        typeof options === 'object' ? options : { timeoutMs: options };
 
-    const info: ProcessInfo = { pid };
+    log.debug(`Getting info for PID ${pid}`, { operation: 'getProcessInfo', pid });
 
     try {
-        if (isWindows) {
-            // Windows: Get process details via PowerShell
-            const psCmd = `powershell -NoProfile -Command "Get-CimInstance Win32_Process -Filter \\"ProcessId = ${pid}\\" | Select-Object ProcessId,Name,CommandLine,ParentProcessId,@{Name='CPU';Expression={$_.UserModeTime}},@{Name='Memory';Expression={$_.WorkingSetSize}} | ConvertTo-Json -Compress"`;
-            const out = await execText(psCmd, timeoutMs);
-            const data = JSON.parse(out);
-
-            if (data) {
-                info.name = data.Name || undefined;
-                info.command = data.CommandLine || undefined;
-                info.parentPid = data.ParentProcessId || undefined;
-
-                // Convert memory from bytes to MB
-                if (data.Memory) {
-                    const memMB = Math.round(data.Memory / 1024 / 1024);
-                    info.memoryUsage = `${memMB} MB`;
-                }
-            }
-        } else {
-            // Unix: Get process details via ps
-            const out = await execText(`ps -p ${pid} -o pid=,comm=,args=,ppid=,%cpu=,%mem=`, timeoutMs);
-            const match = out.trim().match(/^\s*(\d+)\s+([^\s]+)\s+(.+?)\s+(\d+)\s+([\d.]+)\s+([\d.]+)$/);
-
-            if (match) {
-                info.name = match[2];
-                info.command = match[3];
-                info.parentPid = Number(match[4]);
-                info.cpuUsage = `${match[5]}%`;
-                info.memoryUsage = `${match[6]}%`;
-            }
+        const backend = getBackend();
+        const info = await backend.getProcess(pid, timeoutMs, signal);
+        if (!info) {
+            throw new ProcessNotFoundError(`Process ${pid} not found or inaccessible`);
         }
 
         // Get associated ports (works on all platforms)
-        info.ports = await findPortsByPid(pid, timeoutMs);
+        info.ports = await findPortsByPid(pid, timeoutMs, signal);
 
-        log.debug(`Retrieved info for PID ${pid}: ${info.name}`);
+        if ((cwd || exe) && backend.getProcessPaths) {
+            const paths = await backend.getProcessPaths(pid, timeoutMs, signal);
+            if (cwd) info.cwd = paths?.cwd;
+            if (exe) info.exe = paths?.exe;
+        }
+
+        log.debug(`Retrieved info for PID ${pid}: ${info.name}`, { operation: 'getProcessInfo', pid });
         return info;
 
     } catch (error) {
@@ -368,5 +677,72 @@ export const getProcessInfo = async (pid: number, timeoutMs?: number): Promise<P
         }
         throw error;
     }
+});
+
+/**
+ * Check if a process exists/is alive by PID
+ * Uses the active backend, which doesn't actually kill the process
+ * 
+ * - Linux: checks for /proc/{pid} without spawning a command
+ * - Windows: tasklist /FI "PID eq {pid}"
+ * - Unix: signal 0 via process.kill (checks existence without killing)
+ * 
+ * @param pid - Process ID to check
+ * @param abortSignal - Optional AbortSignal, checked before the lookup
+ * @returns True if process exists, false otherwise
+ * @throws {AbortError} If the signal is aborted
+ * 
+ * @example
+ * ```typescript
+ * if (await isProcessAlive(1234)) {
+ *   console.log('Process 1234 is running');
+ * } else {
+ *   console.log('Process 1234 is not running');
+ * }
+ * ```
+ */
+export const isProcessAlive = async (pid: number, abortSignal?: AbortSignal): Promise<boolean> => {
+    throwIfAborted(abortSignal);
+
+    try {
+        return await getBackend().isAlive(pid);
+    } catch {
+        // Any error means process doesn't exist
+        return false;
+    }
 };
 
+/**
+ * Start times closer than this are treated as the same process
+ * ps reports elapsed time in whole seconds, so its start times drift by up to 1s
+ * @internal
+ */
+export const START_TIME_TOLERANCE_MS = 2000;
+
+/**
+ * Check whether a process is still the one seen earlier
+ * A process that started after the recorded start time reused the PID,
+ * so the original has exited.
+ * 
+ * @param pid - Process ID
+ * @param startTime - Start time recorded earlier (undefined if unknown)
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns True if the original process is still running
+ * @internal
+ */
+export const isOriginalAlive = async (pid: number, startTime: number | undefined, abortSignal?: AbortSignal): Promise<boolean> => {
+    if (!await isProcessAlive(pid, abortSignal)) return false;
+    if (startTime === undefined) return true;
+
+    const current = await getBackend().getProcess(pid, undefined, abortSignal).catch(error => {
+        if (error instanceof AbortError) throw error;
+        return null;
+    });
+    if (!current) return false;
+
+    if (current.startTime !== undefined && current.startTime - startTime > START_TIME_TOLERANCE_MS) {
+        log.debug(`PID ${pid} was reused by a newer process, original has exited`, { operation: 'isProcessAlive', pid });
+        return false;
+    }
+    return true;
+};
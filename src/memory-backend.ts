@@ -0,0 +1,129 @@
+/**
+ * In-memory ProcessBackend for deterministic tests
+ * @module memory-backend
+ */
+
+import { ProcessNotFoundError } from './errors';
+import type {
+    MemoryBackend, MemoryBackendOptions, OpenFileInfo, OpenFileQuery, ProcessInfo, SocketInfo, SocketQuery, UnixSignal
+} from './types';
+import { throwIfAborted } from './utils';
+
+/**
+ * Create a backend whose process, socket and open file tables live in memory
+ *
+ * Signals are recorded in `signals`. By default every signal (other than 0,
+ * SIGSTOP and SIGCONT) removes the process, its sockets and its open files;
+ * pass `onSignal` to script processes that ignore SIGTERM, fail to die, or throw.
+ * Every method rejects with AbortError once the abort signal passed to it is aborted.
+ *
+ * @param options - Initial tables and signal behaviour
+ * @returns A MemoryBackend to pass to setBackend()
+ *
+ * @example
+ * ```typescript
+ * const backend = createMemoryBackend({
+ *   processes: [
+ *     { pid: 10, name: 'node', command: 'node server.js' },
+ *     { pid: 11, name: 'node', command: 'node worker.js', parentPid: 10 },
+ *   ],
+ *   // Process 10 only dies on SIGKILL
+ *   onSignal: (pid, signal) => pid !== 10 || signal === 'SIGKILL',
+ * });
+ * setBackend(backend);
+ *
+ * const result = await killByPid(10, { tree: true, forceAfterTimeout: true, escalationDelayMs: 0 });
+ * ```
+ */
+export const createMemoryBackend = (options: MemoryBackendOptions = {}): MemoryBackend => {
+    const processes = new Map<number, ProcessInfo>();
+    let sockets: SocketInfo[] = [...(options.sockets || [])];
+    let openFiles: OpenFileInfo[] = [...(options.openFiles || [])];
+    const signals: Array<{ pid: number; signal: UnixSignal }> = [];
+
+    for (const p of options.processes || []) processes.set(p.pid, { ...p });
+
+    const removeProcess = (pid: number): void => {
+        processes.delete(pid);
+        sockets = sockets.filter(s => s.pid !== pid);
+        openFiles = openFiles.filter(f => f.pid !== pid);
+    };
+
+    const deliver = (pid: number, signal: UnixSignal): void => {
+        if (signal === 0 || signal === 'SIGSTOP' || signal === 'SIGCONT') return;
+
+        const dies = options.onSignal ? options.onSignal(pid, signal) !== false : true;
+        if (dies) removeProcess(pid);
+    };
+
+    return {
+        name: 'memory',
+        supportsSignals: true,
+        signals,
+
+        listProcesses: async (_timeoutMs?: number, abortSignal?: AbortSignal) => {
+            throwIfAborted(abortSignal);
+            return [...processes.values()].map(p => ({ ...p }));
+        },
+
+        getProcess: async (pid: number, _timeoutMs?: number, abortSignal?: AbortSignal) => {
+            throwIfAborted(abortSignal);
+            const info = processes.get(pid);
+            return info ? { ...info } : null;
+        },
+
+        listSockets: async (query: SocketQuery = {}, _timeoutMs?: number, abortSignal?: AbortSignal) => {
+            throwIfAborted(abortSignal);
+            return sockets
+                .filter(s => query.port === undefined || s.port === query.port)
+                .filter(s => query.pid === undefined || s.pid === query.pid)
+                .map(s => ({ ...s }));
+        },
+
+        listOpenFiles: async (query: OpenFileQuery, _timeoutMs?: number, abortSignal?: AbortSignal) => {
+            throwIfAborted(abortSignal);
+            const prefix = query.path.endsWith('/') ? query.path : `${query.path}/`;
+            return openFiles
+                .filter(f => f.path === query.path || (query.recursive === true && f.path.startsWith(prefix)))
+                .map(f => ({ ...f }));
+        },
+
+        sendSignal: async (pid: number, signal: UnixSignal, _timeoutMs?: number, abortSignal?: AbortSignal) => {
+            throwIfAborted(abortSignal);
+            if (!processes.has(pid)) {
+                throw new ProcessNotFoundError(`Process ${pid} not found`);
+            }
+
+            signals.push({ pid, signal });
+            deliver(pid, signal);
+        },
+
+        sendGroupSignal: async (pgid: number, signal: UnixSignal, _timeoutMs?: number, abortSignal?: AbortSignal) => {
+            throwIfAborted(abortSignal);
+            const members = [...processes.values()].filter(p => p.pgid === pgid).map(p => p.pid);
+            if (members.length === 0) {
+                throw new ProcessNotFoundError(`Process group ${pgid} not found`);
+            }
+
+            // Recorded like kill(2): a negative PID addresses the group
+            signals.push({ pid: -pgid, signal });
+            for (const pid of members) deliver(pid, signal);
+        },
+
+        isAlive: async (pid: number) => processes.has(pid),
+
+        addProcess: (info: ProcessInfo) => {
+            processes.set(info.pid, { ...info });
+        },
+
+        removeProcess,
+
+        addSocket: (socket: SocketInfo) => {
+            sockets.push({ ...socket });
+        },
+
+        addOpenFile: (file: OpenFileInfo) => {
+            openFiles.push({ ...file });
+        },
+    };
+};
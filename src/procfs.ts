@@ -0,0 +1,692 @@
+/**
+ * Native Linux /proc readers
+ * Used by the system backend instead of spawning ps/lsof/kill on Linux,
+ * with the shell commands kept as a fallback when /proc is unreadable
+ * @module procfs
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import { log } from './logger';
+import type { FileAccessMode, OpenFileInfo, OpenFileQuery, ProcessInfo, ProcessPaths, SocketInfo, SocketQuery } from './types';
+import { parseProcessState } from './utils';
+
+/**
+ * Whether the native /proc backend can be used
+ * True only on Linux with a mounted procfs
+ */
+export const hasProcfs = process.platform === 'linux' && existsSync('/proc/self/stat');
+
+/**
+ * Kernel clock ticks per second (USER_HZ)
+ * Fixed at 100 on every mainstream Linux architecture
+ */
+const CLOCK_TICKS = 100;
+
+/**
+ * Page size assumed when /proc/self gives no answer
+ */
+const FALLBACK_PAGE_SIZE = 4096;
+
+/**
+ * Bytes of /proc/self/smaps read to find the first KernelPageSize line
+ * The first mapping block is well under 1K; the full file can be hundreds of K
+ */
+const SMAPS_HEAD_BYTES = 4096;
+
+/**
+ * Memory page size in bytes, read once from /proc/self
+ * Not fixed: arm64 and ppc64 kernels often use 16K or 64K pages
+ */
+let pageSize: Promise<number> | undefined;
+
+/**
+ * Read the page size from the first KernelPageSize line of smaps
+ *
+ * @param smaps - Start of /proc/<pid>/smaps
+ * @returns Page size in bytes, or null if no line is found
+ * @internal
+ */
+export const parseKernelPageSize = (smaps: string): number | null => {
+    const kb = Number(smaps.match(/^KernelPageSize:\s+(\d+) kB/m)?.[1]);
+    return kb > 0 ? kb * 1024 : null;
+};
+
+/**
+ * Derive the page size from the virtual size reported in pages (statm)
+ * and in kB (status), rounded to a power of two
+ *
+ * @param statm - Contents of /proc/<pid>/statm
+ * @param status - Contents of /proc/<pid>/status
+ * @returns Page size in bytes, or null if either value is missing
+ * @internal
+ */
+export const derivePageSize = (statm: string, status: string): number | null => {
+    const pages = Number(statm.trim().split(/\s+/)[0]);
+    const kb = Number(status.match(/^VmSize:\s+(\d+) kB/m)?.[1]);
+    if (!(pages > 0) || !(kb > 0)) return null;
+    return 2 ** Math.round(Math.log2(kb * 1024 / pages));
+};
+
+/**
+ * Read the first bytes of a file
+ * @internal
+ */
+const readHead = async (path: string, bytes: number): Promise<string> => {
+    const file = await fs.open(path, 'r');
+    try {
+        const { bytesRead, buffer } = await file.read(Buffer.alloc(bytes), 0, bytes, 0);
+        return buffer.toString('utf8', 0, bytesRead);
+    } finally {
+        await file.close();
+    }
+};
+
+/**
+ * Get the memory page size used for RSS calculations (cached)
+ *
+ * Read from /proc/self/smaps, or derived from statm and status where smaps
+ * is unavailable (kernels without CONFIG_PROC_PAGE_MONITOR). No command is
+ * spawned.
+ *
+ * @internal
+ */
+const readPageSize = (): Promise<number> => {
+    pageSize ??= (async () => {
+        const fromSmaps = await readHead('/proc/self/smaps', SMAPS_HEAD_BYTES)
+            .then(parseKernelPageSize, () => null);
+        if (fromSmaps) return fromSmaps;
+
+        const derived = await Promise.all([
+            fs.readFile('/proc/self/statm', 'utf8'),
+            fs.readFile('/proc/self/status', 'utf8'),
+        ]).then(([statm, status]) => derivePageSize(statm, status), () => null);
+        if (derived) return derived;
+
+        log.debug(`Could not read the page size from /proc/self, assuming ${FALLBACK_PAGE_SIZE} bytes`);
+        return FALLBACK_PAGE_SIZE;
+    })();
+    return pageSize;
+};
+
+/**
+ * Parsed fields from /proc/<pid>/stat
+ * Field numbers follow proc(5)
+ */
+export interface ProcStat {
+    pid: number;
+    /** Executable name (field 2, truncated to 15 chars by the kernel) */
+    comm: string;
+    /** Single-letter process state (field 3) */
+    state: string;
+    /** Parent PID (field 4) */
+    ppid: number;
+    /** Process group ID (field 5) */
+    pgrp: number;
+    /** Session ID (field 6) */
+    session: number;
+    /** User mode CPU time in clock ticks (field 14) */
+    utime: number;
+    /** Kernel mode CPU time in clock ticks (field 15) */
+    stime: number;
+    /** Number of threads (field 20) */
+    numThreads: number;
+    /** Start time after boot in clock ticks (field 22) */
+    starttime: number;
+    /** Virtual memory size in bytes (field 23) */
+    vsize: number;
+    /** Resident set size in pages (field 24) */
+    rss: number;
+}
+
+/**
+ * Entry from /proc/net/{tcp,tcp6,udp,udp6}
+ */
+export interface ProcSocket {
+    /** Local port */
+    port: number;
+    /** Transport protocol */
+    protocol: 'tcp' | 'udp';
+    /** TCP connection state, normalized (e.g. "LISTEN", "ESTABLISHED"); undefined for UDP */
+    state?: string;
+    /** Socket inode, used to map sockets to owning processes */
+    inode: number;
+}
+
+/**
+ * Kernel TCP state codes (include/net/tcp_states.h) mapped to lsof names
+ */
+const TCP_STATES: Record<string, string> = {
+    '01': 'ESTABLISHED',
+    '02': 'SYN_SENT',
+    '03': 'SYN_RECV',
+    '04': 'FIN_WAIT1',
+    '05': 'FIN_WAIT2',
+    '06': 'TIME_WAIT',
+    '07': 'CLOSE',
+    '08': 'CLOSE_WAIT',
+    '09': 'LAST_ACK',
+    '0A': 'LISTEN',
+    '0B': 'CLOSING',
+};
+
+/**
+ * Check whether an error means the process or file is gone / not accessible
+ * @internal
+ */
+const isMissing = (error: unknown): boolean => {
+    const code = (error as NodeJS.ErrnoException)?.code;
+    return code === 'ENOENT' || code === 'ESRCH' || code === 'EACCES' || code === 'EPERM';
+};
+
+/**
+ * List all numeric PIDs under /proc
+ *
+ * @returns Array of PIDs currently visible in /proc
+ */
+export const listProcPids = async (): Promise<number[]> => {
+    const entries = await fs.readdir('/proc');
+    return entries
+        .filter(e => /^\d+$/.test(e))
+        .map(Number);
+};
+
+/**
+ * Parse the contents of /proc/<pid>/stat
+ *
+ * The comm field is wrapped in parentheses and may itself contain spaces
+ * or parentheses, so we split on the LAST closing parenthesis.
+ *
+ * @param pid - Process ID the contents were read for
+ * @param text - Contents of /proc/<pid>/stat
+ * @returns Parsed stat fields, or null if the line is malformed
+ * @internal
+ */
+export const parseProcStat = (pid: number, text: string): ProcStat | null => {
+    const open = text.indexOf('(');
+    const close = text.lastIndexOf(')');
+    if (open < 0 || close < open) return null;
+
+    // Fields after comm start at field 3 (state)
+    const rest = text.slice(close + 2).trim().split(/\s+/);
+
+    return {
+        pid,
+        comm: text.slice(open + 1, close),
+        state: rest[0],
+        ppid: Number(rest[1]),
+        pgrp: Number(rest[2]),
+        session: Number(rest[3]),
+        utime: Number(rest[11]),
+        stime: Number(rest[12]),
+        numThreads: Number(rest[17]),
+        starttime: Number(rest[19]),
+        vsize: Number(rest[20]),
+        rss: Number(rest[21]),
+    };
+};
+
+/**
+ * Read and parse /proc/<pid>/stat
+ *
+ * @param pid - Process ID
+ * @returns Parsed stat fields, or null if the process doesn't exist
+ */
+export const readProcStat = async (pid: number): Promise<ProcStat | null> => {
+    let text: string;
+    try {
+        text = await fs.readFile(`/proc/${pid}/stat`, 'utf8');
+    } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+    }
+    return parseProcStat(pid, text);
+};
+
+/**
+ * Read /proc/<pid>/cmdline as a space-separated command line
+ *
+ * @param pid - Process ID
+ * @returns Command line (empty for kernel threads), or null if the process doesn't exist
+ */
+export const readProcCmdline = async (pid: number): Promise<string | null> => {
+    try {
+        const raw = await fs.readFile(`/proc/${pid}/cmdline`, 'utf8');
+        return raw.replace(/\0+$/, '').split('\0').join(' ');
+    } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+    }
+};
+
+/**
+ * Count the file descriptors a process holds open via /proc/<pid>/fd
+ *
+ * @param pid - Process ID
+ * @returns Number of open descriptors, or null if the directory is unreadable
+ */
+export const readFdCount = async (pid: number): Promise<number | null> => {
+    try {
+        return (await fs.readdir(`/proc/${pid}/fd`)).length;
+    } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+    }
+};
+
+/**
+ * Check if a process exists by reading /proc/<pid>/stat
+ * Zombies (exited but not yet reaped) count as dead
+ *
+ * @param pid - Process ID
+ * @returns True if the process exists and hasn't exited
+ */
+export const procIsAlive = async (pid: number): Promise<boolean> => {
+    const stat = await readProcStat(pid);
+    return stat !== null && stat.state !== 'Z';
+};
+
+/**
+ * Socket tables to read, with the protocol each one describes
+ */
+const NET_FILES: Array<[string, 'tcp' | 'udp']> = [
+    ['/proc/net/tcp', 'tcp'],
+    ['/proc/net/tcp6', 'tcp'],
+    ['/proc/net/udp', 'udp'],
+    ['/proc/net/udp6', 'udp'],
+];
+
+/**
+ * Parse one of /proc/net/{tcp,tcp6,udp,udp6}
+ *
+ * Line format (after the header):
+ *   sl local_address rem_address st tx_queue:rx_queue ... uid timeout inode
+ *   0: 0100007F:0BB8 00000000:0000 0A 00000000:00000000 ... 1000 0 12345
+ *
+ * @param text - Contents of the socket table
+ * @param protocol - Protocol the table describes
+ * @returns Sockets listed in the table
+ * @internal
+ */
+export const parseNetSockets = (text: string, protocol: 'tcp' | 'udp'): ProcSocket[] => {
+    const sockets: ProcSocket[] = [];
+
+    for (const line of text.split('\n').slice(1)) {
+        const parts = line.trim().split(/\s+/);
+        if (parts.length < 10) continue;
+
+        const localPort = parts[1].split(':')[1];
+        sockets.push({
+            port: parseInt(localPort, 16),
+            protocol,
+            state: protocol === 'tcp' ? TCP_STATES[parts[3]] || parts[3] : undefined,
+            inode: Number(parts[9]),
+        });
+    }
+
+    return sockets;
+};
+
+/**
+ * Read /proc/net/{tcp,tcp6,udp,udp6}
+ *
+ * @returns All TCP and UDP sockets (IPv4 and IPv6)
+ */
+export const readNetSockets = async (): Promise<ProcSocket[]> => {
+    const sockets: ProcSocket[] = [];
+
+    for (const [file, protocol] of NET_FILES) {
+        let text: string;
+        try {
+            text = await fs.readFile(file, 'utf8');
+        } catch (error) {
+            // tcp6/udp6 are missing when IPv6 is disabled
+            if (isMissing(error)) continue;
+            throw error;
+        }
+        sockets.push(...parseNetSockets(text, protocol));
+    }
+
+    return sockets;
+};
+
+/**
+ * Read socket inodes held open by a process via /proc/<pid>/fd links
+ *
+ * Requires permission to read the target's fd directory (same user or root);
+ * unreadable processes yield an empty array.
+ *
+ * @param pid - Process ID
+ * @returns Array of socket inode numbers
+ */
+export const readSocketInodes = async (pid: number): Promise<number[]> => {
+    let fds: string[];
+    try {
+        fds = await fs.readdir(`/proc/${pid}/fd`);
+    } catch (error) {
+        if (isMissing(error)) return [];
+        throw error;
+    }
+
+    const links = await Promise.all(fds.map(fd =>
+        fs.readlink(`/proc/${pid}/fd/${fd}`).catch(() => '')
+    ));
+
+    const inodes: number[] = [];
+    for (const link of links) {
+        const match = link.match(/^socket:\[(\d+)\]$/);
+        if (match) inodes.push(Number(match[1]));
+    }
+    return inodes;
+};
+
+/**
+ * System-wide values needed to derive per-process figures
+ * @internal
+ */
+interface SystemTotals {
+    /** Seconds since boot (/proc/uptime) */
+    uptime: number;
+    /** Boot time in seconds since epoch (btime in /proc/stat) */
+    bootTime: number;
+    /** Total memory in kB (/proc/meminfo) */
+    memTotalKb: number;
+    /** Memory page size in bytes (/proc/self/smaps) */
+    pageSize: number;
+    /** uid → user name from /etc/passwd */
+    users: Map<number, string>;
+}
+
+/**
+ * Parse /etc/passwd into a uid → name map
+ * Missing or unreadable passwd (e.g. distroless images) yields an empty map
+ * @internal
+ */
+const readUsers = async (): Promise<Map<number, string>> => {
+    const users = new Map<number, string>();
+    try {
+        const text = await fs.readFile('/etc/passwd', 'utf8');
+        for (const line of text.split('\n')) {
+            const [name, , uid] = line.split(':');
+            if (name && uid && /^\d+$/.test(uid)) users.set(Number(uid), name);
+        }
+    } catch {
+        // Fall back to numeric uids
+    }
+    return users;
+};
+
+/**
+ * Read system-wide values needed to compute CPU, memory, start time and owner
+ * @internal
+ */
+const readSystemTotals = async (): Promise<SystemTotals> => {
+    const [uptimeText, statText, meminfo, users, pageSize] = await Promise.all([
+        fs.readFile('/proc/uptime', 'utf8'),
+        fs.readFile('/proc/stat', 'utf8'),
+        fs.readFile('/proc/meminfo', 'utf8'),
+        readUsers(),
+        readPageSize(),
+    ]);
+
+    return {
+        uptime: Number(uptimeText.split(/\s+/)[0]),
+        bootTime: Number(statText.match(/^btime\s+(\d+)/m)?.[1]),
+        memTotalKb: Number(meminfo.match(/^MemTotal:\s+(\d+)/m)?.[1]),
+        pageSize,
+        users,
+    };
+};
+
+/**
+ * Read the uid owning a process (owner of the /proc/<pid> directory)
+ * @internal
+ */
+const readProcUid = async (pid: number): Promise<number | null> => {
+    try {
+        return (await fs.stat(`/proc/${pid}`)).uid;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Build ProcessInfo from parsed /proc data, matching the fields ps would report
+ *
+ * CPU usage is computed like `ps %cpu`: total CPU time divided by elapsed
+ * time since process start. Memory usage is RSS as a share of MemTotal.
+ *
+ * @internal
+ */
+const toProcessInfo = (
+    stat: ProcStat,
+    cmdline: string | null,
+    uid: number | null,
+    totals: SystemTotals
+): ProcessInfo => {
+    const info: ProcessInfo = {
+        pid: stat.pid,
+        name: stat.comm,
+        // Kernel threads have no cmdline; ps shows their comm instead
+        command: cmdline || stat.comm,
+        parentPid: stat.ppid,
+        memoryBytes: stat.rss * totals.pageSize,
+        pgid: stat.pgrp,
+        sessionId: stat.session,
+        state: parseProcessState(stat.state),
+        cpuTimeMs: (stat.utime + stat.stime) / CLOCK_TICKS * 1000,
+        virtualBytes: stat.vsize,
+        threads: stat.numThreads,
+    };
+
+    if (uid !== null) {
+        info.uid = uid;
+        info.user = totals.users.get(uid) ?? String(uid);
+    }
+
+    if (totals.bootTime > 0) {
+        info.startTime = Math.round((totals.bootTime + stat.starttime / CLOCK_TICKS) * 1000);
+    }
+
+    const elapsed = totals.uptime - stat.starttime / CLOCK_TICKS;
+    info.elapsedMs = Math.max(0, Math.round(elapsed * 1000));
+    info.cpuPercent = elapsed > 0 ? (info.cpuTimeMs! / 1000 / elapsed) * 100 : 0;
+    info.cpuUsage = `${info.cpuPercent.toFixed(1)}%`;
+
+    if (totals.memTotalKb > 0) {
+        const mem = info.memoryBytes! / (totals.memTotalKb * 1024) * 100;
+        info.memoryUsage = `${mem.toFixed(1)}%`;
+    }
+
+    return info;
+};
+
+/**
+ * Read everything toProcessInfo() needs for one PID
+ * @internal
+ */
+const readProcess = async (pid: number, totals: SystemTotals): Promise<ProcessInfo | null> => {
+    const [stat, cmdline, uid] = await Promise.all([readProcStat(pid), readProcCmdline(pid), readProcUid(pid)]);
+    return stat ? toProcessInfo(stat, cmdline, uid, totals) : null;
+};
+
+/**
+ * List every process visible in /proc
+ *
+ * Processes that exit while the table is being read are skipped.
+ *
+ * @returns ProcessInfo for each process (ports not included)
+ */
+export const procListProcesses = async (): Promise<ProcessInfo[]> => {
+    const [pids, totals] = await Promise.all([listProcPids(), readSystemTotals()]);
+    const infos = await Promise.all(pids.map(pid => readProcess(pid, totals)));
+
+    return infos.filter((i): i is ProcessInfo => i !== null);
+};
+
+/**
+ * Get ProcessInfo for a single PID from /proc
+ * Unlike the full listing, this also counts open file descriptors
+ *
+ * @param pid - Process ID
+ * @returns ProcessInfo without ports, or null if the process doesn't exist
+ */
+export const procGetProcess = async (pid: number): Promise<ProcessInfo | null> => {
+    const [info, fdCount] = await Promise.all([
+        readSystemTotals().then(totals => readProcess(pid, totals)),
+        readFdCount(pid),
+    ]);
+    if (info && fdCount !== null) info.fdCount = fdCount;
+    return info;
+};
+
+/**
+ * Resolve the cwd and exe links of a process
+ *
+ * Links of other users' processes (without root) and of kernel threads
+ * can't be read and are left undefined.
+ *
+ * @param pid - Process ID
+ * @returns Readable paths, or null if the process doesn't exist
+ */
+export const procGetProcessPaths = async (pid: number): Promise<ProcessPaths | null> => {
+    const readLink = (name: string): Promise<string | undefined> =>
+        fs.readlink(`/proc/${pid}/${name}`).catch((error) => {
+            if (isMissing(error)) return undefined;
+            throw error;
+        });
+
+    const [cwd, exe] = await Promise.all([readLink('cwd'), readLink('exe')]);
+    if (cwd === undefined && exe === undefined && await readProcStat(pid) === null) return null;
+    return { cwd, exe };
+};
+
+/**
+ * Read the working directory of every process visible in /proc
+ *
+ * Processes whose cwd link can't be read are left out. A directory that was
+ * deleted while in use is reported under its former path.
+ *
+ * @returns Map of PID → working directory
+ */
+export const procListWorkingDirectories = async (): Promise<Map<number, string>> => {
+    const pids = await listProcPids();
+    const links = await Promise.all(pids.map(pid =>
+        fs.readlink(`/proc/${pid}/cwd`).catch(() => null)
+    ));
+
+    const cwds = new Map<number, string>();
+    links.forEach((link, i) => {
+        if (link) cwds.set(pids[i], link.replace(/ \(deleted\)$/, ''));
+    });
+    return cwds;
+};
+
+/**
+ * Links under /proc/<pid> that hold a file without a descriptor
+ * (lsof calls exe and root "txt" and "rtd")
+ */
+const PATH_LINKS = ['cwd', 'exe', 'root'];
+
+/**
+ * Read the access mode of a descriptor from the octal flags of its fdinfo
+ *
+ * @param fdinfo - Contents of /proc/<pid>/fdinfo/<fd>
+ * @returns Access mode, or undefined if no flags line is found
+ * @internal
+ */
+export const parseFdMode = (fdinfo: string): FileAccessMode | undefined => {
+    const flags = fdinfo.match(/^flags:\s+([0-7]+)/m)?.[1];
+    if (flags === undefined) return undefined;
+
+    // O_ACCMODE bits: 0 = O_RDONLY, 1 = O_WRONLY, 2 = O_RDWR
+    return (['read', 'write', 'readwrite'] as const)[parseInt(flags, 8) & 3];
+};
+
+/**
+ * Read the access mode of a descriptor from /proc/<pid>/fdinfo/<fd>
+ * @internal
+ */
+const readFdMode = (pid: number, fd: number): Promise<FileAccessMode | undefined> =>
+    fs.readFile(`/proc/${pid}/fdinfo/${fd}`, 'utf8').then(parseFdMode, () => undefined);
+
+/**
+ * List processes holding a file or directory via /proc/<pid>/fd links
+ *
+ * Also reports processes using the path as working directory, executable
+ * or root directory. Files deleted while open are matched by their former
+ * path. Only processes we may inspect (same user or root) appear.
+ *
+ * @param query - Absolute path, and whether everything below it matches too
+ * @returns Matching open files
+ */
+export const procListOpenFiles = async (query: OpenFileQuery): Promise<OpenFileInfo[]> => {
+    const prefix = query.path.endsWith('/') ? query.path : `${query.path}/`;
+    const matches = (path: string): boolean =>
+        path === query.path || (query.recursive === true && path.startsWith(prefix));
+
+    const readLink = (link: string): Promise<string | null> =>
+        fs.readlink(link).then(target => target.replace(/ \(deleted\)$/, ''), () => null);
+
+    const perPid = await Promise.all((await listProcPids()).map(async (pid) => {
+        let fds: string[];
+        try {
+            fds = await fs.readdir(`/proc/${pid}/fd`);
+        } catch (error) {
+            if (isMissing(error)) fds = [];
+            else throw error;
+        }
+
+        const [fdTargets, pathTargets] = await Promise.all([
+            Promise.all(fds.map(fd => readLink(`/proc/${pid}/fd/${fd}`))),
+            Promise.all(PATH_LINKS.map(link => readLink(`/proc/${pid}/${link}`))),
+        ]);
+
+        const result: OpenFileInfo[] = [];
+        PATH_LINKS.forEach((fd, i) => {
+            const path = pathTargets[i];
+            if (path && matches(path)) result.push({ pid, fd, path });
+        });
+        for (let i = 0; i < fds.length; i++) {
+            const path = fdTargets[i];
+            if (!path || !matches(path)) continue;
+            const fd = Number(fds[i]);
+            result.push({ pid, fd, path, mode: await readFdMode(pid, fd) });
+        }
+        return result;
+    }));
+
+    return perPid.flat();
+};
+
+/**
+ * List TCP and UDP sockets with their owning PIDs
+ *
+ * Sockets are mapped to processes through the socket inodes linked from
+ * /proc/<pid>/fd, so only processes we may inspect (same user or root) appear.
+ *
+ * @param query - Optional port/PID filter
+ * @returns Matching sockets
+ */
+export const procListSockets = async (query: SocketQuery = {}): Promise<SocketInfo[]> => {
+    const byInode = new Map<number, ProcSocket>();
+    for (const socket of await readNetSockets()) {
+        if (socket.inode <= 0) continue;
+        if (query.port !== undefined && socket.port !== query.port) continue;
+        byInode.set(socket.inode, socket);
+    }
+    if (byInode.size === 0) return [];
+
+    const pids = query.pid !== undefined ? [query.pid] : await listProcPids();
+    const perPid = await Promise.all(pids.map(async (pid) => {
+        const result: SocketInfo[] = [];
+        for (const inode of await readSocketInodes(pid)) {
+            const socket = byInode.get(inode);
+            if (socket) {
+                result.push({ pid, port: socket.port, protocol: socket.protocol, state: socket.state });
+            }
+        }
+        return result;
+    }));
+
+    return perPid.flat();
+};
@@ -0,0 +1,155 @@
+/**
+ * Protected-process safeguards applied before any kill
+ * @module protect
+ */
+
+import { getBackend } from './backend';
+import { log } from './logger';
+import type { ProcessBackend, ProtectionOptions } from './types';
+import { throwIfAborted } from './utils';
+
+/**
+ * User-configured protected list
+ * Built-in rules (PID 1, current process, ancestors) always apply on top
+ */
+let protection: Required<ProtectionOptions> = { pids: [], names: [], users: [] };
+
+/**
+ * Ancestors of the current process, resolved once per backend
+ */
+const ancestorCache = new WeakMap<ProcessBackend, Promise<Set<number>>>();
+
+/**
+ * Walk the parent chain of the current process through the backend
+ * @internal
+ */
+const resolveAncestors = async (backend: ProcessBackend): Promise<Set<number>> => {
+    const ancestors = new Set<number>([process.ppid]);
+    let current = process.ppid;
+
+    while (current > 1) {
+        const info = await backend.getProcess(current).catch(() => null);
+        const parent = info?.parentPid;
+        if (!parent || ancestors.has(parent)) break;
+        ancestors.add(parent);
+        current = parent;
+    }
+
+    return ancestors;
+};
+
+/**
+ * Get the ancestor PIDs of the current process (cached per backend)
+ * @internal
+ */
+const getAncestors = (backend: ProcessBackend): Promise<Set<number>> => {
+    let ancestors = ancestorCache.get(backend);
+    if (!ancestors) {
+        ancestors = resolveAncestors(backend);
+        ancestorCache.set(backend, ancestors);
+    }
+    return ancestors;
+};
+
+/**
+ * Replace the user-configured protected process list
+ * 
+ * PID 1, the current Node process and its ancestors (e.g. the shell or
+ * test runner that started it) are always protected, regardless of this list.
+ * 
+ * @param options - Protected PIDs, names and users
+ * 
+ * @example
+ * ```typescript
+ * import { setProtected, killByName } from 'kproc';
+ * 
+ * setProtected({ names: ['postgres', 'sshd'], users: ['root'] });
+ * 
+ * // Any postgres/root process is skipped (our own runner isn't even selected)
+ * const results = await killByName('node');
+ * results.filter(r => r.skipped).forEach(r => console.log(r.error));
+ * ```
+ */
+export const setProtected = (options: ProtectionOptions): void => {
+    protection = {
+        pids: [...(options.pids || [])],
+        names: (options.names || []).map(n => n.toLowerCase()),
+        users: [...(options.users || [])],
+    };
+    log.debug(`Protected list: ${protection.pids.length} PIDs, ${protection.names.length} names, ${protection.users.length} users`);
+};
+
+/**
+ * Get the user-configured protected process list
+ * 
+ * @returns Copy of the configured PIDs, names and users
+ */
+export const getProtected = (): Required<ProtectionOptions> => ({
+    pids: [...protection.pids],
+    names: [...protection.names],
+    users: [...protection.users],
+});
+
+/**
+ * Drop the current process and its ancestors from a list of selected PIDs
+ * 
+ * Selection-based kills (by name, user, directory, file or query) readily
+ * match kproc's own process and the shell that started it. Those are never
+ * the intended targets, so they are left out of the batch instead of being
+ * reported as skipped. With `force` the list is returned unchanged.
+ * 
+ * @param pids - Selected PIDs
+ * @param force - Keep protected PIDs (KillOptions.force)
+ * @returns PIDs without the current process and its ancestors
+ * 
+ * @internal
+ */
+export const withoutSelf = async (pids: number[], force = false): Promise<number[]> => {
+    if (force) return pids;
+    const ancestors = await getAncestors(getBackend());
+    const kept = pids.filter(pid => pid !== process.pid && !ancestors.has(pid));
+    if (kept.length < pids.length) {
+        log.debug(`Left ${pids.length - kept.length} of the selected PIDs out: current process or its ancestors`);
+    }
+    return kept;
+};
+
+/**
+ * Check whether a PID is protected from killing
+ * 
+ * @param pid - Process ID
+ * @param timeoutMs - Optional command timeout for the process lookup
+ * @param abortSignal - Optional AbortSignal to cancel the lookup
+ * @returns Reason the process is protected, or null if it may be killed
+ * @throws {AbortError} If the signal is aborted
+ * 
+ * @internal
+ */
+export const getProtectionReason = async (
+    pid: number,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<string | null> => {
+    throwIfAborted(abortSignal);
+
+    if (pid === 1) return 'PID 1 (init) is protected';
+    if (pid === process.pid) return 'it is the current process';
+    if (protection.pids.includes(pid)) return 'PID is in the protected list';
+
+    const backend = getBackend();
+    if ((await getAncestors(backend)).has(pid)) {
+        return 'it is an ancestor of the current process';
+    }
+
+    if (protection.names.length === 0 && protection.users.length === 0) return null;
+
+    const info = await backend.getProcess(pid, timeoutMs, abortSignal).catch(() => null);
+    if (info?.name && protection.names.includes(info.name.toLowerCase())) {
+        return `process name "${info.name}" is protected`;
+    }
+    if (info?.user && protection.users.includes(info.user)) {
+        return `user "${info.user}" is protected`;
+    }
+
+    return null;
+};
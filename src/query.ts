@@ -0,0 +1,168 @@
+/**
+ * Query-based process selection
+ * Combine name, command, user, parent, age, resource and port filters
+ * @module query
+ */
+
+import { InvalidInputError, ProcessNotFoundError } from './errors';
+import { completeAll, killByPids, tagSelected, withoutComplete } from './kill';
+import { log, withLogContext } from './logger';
+import { listProcesses, queryPortSockets } from './lookup';
+import { withoutSelf } from './protect';
+import type { KillOptions, KillResult, ProcessInfo, ProcessQuery } from './types';
+import { buildMatcher, matchesPortQuery, matchesUser } from './utils';
+
+/**
+ * Build a matcher for a string (substring) or RegExp criterion
+ * @internal
+ */
+const toMatcher = (pattern: string | RegExp): ((s: string) => boolean) =>
+    pattern instanceof RegExp
+        ? (s: string) => new RegExp(pattern.source, pattern.flags.replace('g', '')).test(s || "")
+        : buildMatcher(pattern, false);
+
+/**
+ * Build a predicate that tests a ProcessInfo against a query
+ * 
+ * @param query - Process query
+ * @returns Predicate over ProcessInfo (port criterion not included)
+ * @throws {InvalidInputError} If the query is empty or has invalid values
+ * 
+ * @internal
+ */
+export const buildProcessFilter = (query: ProcessQuery): ((p: ProcessInfo) => boolean) => {
+    const keys = (Object.keys(query) as Array<keyof ProcessQuery>).filter(k => query[k] !== undefined);
+    if (keys.length === 0) {
+        // An empty query would select every process on the system
+        throw new InvalidInputError("Process query must specify at least one filter");
+    }
+
+    for (const key of ['parentPid', 'minAgeMs', 'minCpuPercent', 'minMemoryBytes', 'port'] as const) {
+        const value = query[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+            throw new InvalidInputError(`Invalid ${key}: ${value}. Must be a non-negative number.`);
+        }
+    }
+
+    const nameMatcher = query.name !== undefined ? toMatcher(query.name) : undefined;
+    const commandMatcher = query.command !== undefined ? toMatcher(query.command) : undefined;
+
+    return (p: ProcessInfo): boolean => {
+        const now = Date.now();
+
+        if (nameMatcher && !nameMatcher(p.name || "")) return false;
+        if (commandMatcher && !commandMatcher(p.command || "")) return false;
+        if (query.user !== undefined && !matchesUser(p, query.user)) return false;
+        if (query.parentPid !== undefined && p.parentPid !== query.parentPid) return false;
+        if (query.minAgeMs !== undefined && (p.startTime === undefined || now - p.startTime < query.minAgeMs)) return false;
+        if (query.minCpuPercent !== undefined && (p.cpuPercent === undefined || p.cpuPercent < query.minCpuPercent)) return false;
+        if (query.minMemoryBytes !== undefined && (p.memoryBytes === undefined || p.memoryBytes < query.minMemoryBytes)) return false;
+
+        return true;
+    };
+};
+
+/**
+ * Find processes matching every criterion of a query
+ * 
+ * Takes one process snapshot (plus one socket lookup if `port` is set)
+ * and filters it in memory.
+ * 
+ * @param query - Filter object (see ProcessQuery)
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookups
+ * @returns Matching ProcessInfo objects
+ * @throws {InvalidInputError} If the query is empty or invalid
+ * 
+ * @example
+ * ```typescript
+ * const hogs = await findProcesses({ minMemoryBytes: 2 * 1024 ** 3 });
+ * hogs.forEach(p => console.log(p.pid, p.name, p.memoryBytes));
+ * ```
+ */
+export const findProcesses = (
+    query: ProcessQuery,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<ProcessInfo[]> => withLogContext('findProcesses', false, async () => {
+    const matches = buildProcessFilter(query);
+
+    let listeners: Set<number> | undefined;
+    if (query.port !== undefined) {
+        const sockets = await queryPortSockets(query.port, timeoutMs, abortSignal);
+        listeners = new Set(sockets.filter(s => matchesPortQuery(s, { state: 'listen' })).map(s => s.pid));
+        if (listeners.size === 0) return [];
+    }
+
+    const processes = await listProcesses(timeoutMs, abortSignal);
+    const result = processes.filter(p => matches(p) && (!listeners || listeners.has(p.pid)));
+
+    log.debug(`Process query matched ${result.length} of ${processes.length} processes`, { operation: 'findProcesses' });
+    return result;
+});
+
+/**
+ * Find PIDs of processes matching every criterion of a query
+ * 
+ * @param query - Filter object (see ProcessQuery)
+ * @param timeoutMs - Optional command timeout
+ * @param abortSignal - Optional AbortSignal to cancel the lookups
+ * @returns Matching PIDs
+ * @throws {InvalidInputError} If the query is empty or invalid
+ * 
+ * @example
+ * ```typescript
+ * import { userInfo } from 'os';
+ * 
+ * // node processes owned by me, older than 2h, using >1GB
+ * const pids = await findPids({
+ *   name: 'node',
+ *   user: userInfo().username,
+ *   minAgeMs: 2 * 60 * 60 * 1000,
+ *   minMemoryBytes: 1024 ** 3,
+ * });
+ * ```
+ */
+export const findPids = async (
+    query: ProcessQuery,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<number[]> =>
+    (await findProcesses(query, timeoutMs, abortSignal)).map(p => p.pid);
+
+/**
+ * Kill every process matching a query
+ * 
+ * Selection uses findPids(); killing goes through the regular batch
+ * pipeline (killByPids), so all KillOptions apply.
+ * 
+ * @param query - Filter object (see ProcessQuery)
+ * @param options - Kill options
+ * @returns Array of KillResult for all matching processes
+ * @throws {InvalidInputError} If the query is empty or invalid
+ * @throws {ProcessNotFoundError} If no process matches
+ * @throws {AbortError} If `abortSignal` is aborted; `error.results` holds the finished kills
+ * 
+ * @example
+ * ```typescript
+ * // Kill stale webpack watchers started from a shell
+ * const results = await killWhere(
+ *   { command: /webpack.*--watch/, minAgeMs: 24 * 60 * 60 * 1000 },
+ *   { tree: true, verify: true }
+ * );
+ * ```
+ */
+export const killWhere = (
+    query: ProcessQuery,
+    options: KillOptions = {}
+): Promise<KillResult[]> => withLogContext('killWhere', options.debug, async () => {
+    const pids = await withoutSelf(await findPids(query, options.timeoutMs, options.abortSignal), options.force);
+
+    if (pids.length === 0) {
+        throw new ProcessNotFoundError("No process matched the given query");
+    }
+
+    log.debug(`Found ${pids.length} processes matching query`, { operation: 'killWhere' });
+    const results = await tagSelected(killByPids(pids, withoutComplete(options)), () => ({ query }));
+    return await completeAll(results, options);
+});
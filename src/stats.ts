@@ -0,0 +1,137 @@
+/**
+ * Numeric resource usage of processes
+ * @module stats
+ */
+
+import { getBackend } from './backend';
+import { AbortError, InvalidInputError, ProcessNotFoundError } from './errors';
+import { log, withLogContext } from './logger';
+import { START_TIME_TOLERANCE_MS } from './lookup';
+import type { ProcessInfo, ProcessStats, ProcessStatsOptions } from './types';
+import { allSettledLimit, DEFAULT_CONCURRENCY, sleep } from './utils';
+
+/**
+ * Default time between the two CPU readings: 500ms
+ */
+const DEFAULT_SAMPLE_MS = 500;
+
+/**
+ * Read ProcessInfo for every PID, skipping processes that don't exist
+ * Lookups that fail for other reasons are logged and skipped too
+ *
+ * @internal
+ */
+const readProcesses = async (
+    pids: number[],
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<Map<number, ProcessInfo>> => {
+    const backend = getBackend();
+    const settled = await allSettledLimit(pids, DEFAULT_CONCURRENCY, pid => backend.getProcess(pid, timeoutMs, abortSignal));
+
+    const infos = new Map<number, ProcessInfo>();
+    settled.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+            if (result.value) infos.set(pids[i], result.value);
+            return;
+        }
+        if (result.reason instanceof AbortError) throw result.reason;
+        log.debug(`Stats lookup failed: ${(result.reason as Error).message}`, { operation: 'getProcessStats', pid: pids[i] });
+    });
+    return infos;
+};
+
+/**
+ * Convert the second reading into ProcessStats
+ *
+ * CPU percent comes from the CPU time used between the two readings. When
+ * the backend reports no CPU time, or the PID was reused in between, the
+ * lifetime average from the second reading is used instead.
+ *
+ * @internal
+ */
+const toStats = (info: ProcessInfo, before: ProcessInfo | undefined, elapsedMs: number): ProcessStats => {
+    const sampled = before !== undefined
+        && elapsedMs > 0
+        && Math.abs((before.startTime ?? 0) - (info.startTime ?? 0)) < START_TIME_TOLERANCE_MS
+        && before.cpuTimeMs !== undefined
+        && info.cpuTimeMs !== undefined;
+
+    return {
+        pid: info.pid,
+        cpuPercent: sampled
+            ? Math.max(0, info.cpuTimeMs! - before!.cpuTimeMs!) / elapsedMs * 100
+            : info.cpuPercent,
+        rssBytes: info.memoryBytes,
+        virtualBytes: info.virtualBytes,
+        threads: info.threads,
+        fdCount: info.fdCount,
+        startTime: info.startTime,
+    };
+};
+
+/**
+ * Get numeric resource usage for one or more processes
+ *
+ * Reads each process twice, `sampleMs` apart, and reports the CPU used in
+ * between. Unlike the `cpuUsage` / `memoryUsage` strings of ProcessInfo,
+ * every field is a number in the same unit on every platform.
+ *
+ * @param pid - Process ID, or an array of PIDs
+ * @param options - Sample interval, command timeout and abort signal
+ * @returns Stats for the PID; for an array, stats of the processes still running, in input order
+ * @throws {InvalidInputError} If a PID or sampleMs is invalid
+ * @throws {ProcessNotFoundError} If a single PID doesn't exist or exits while sampling
+ * @throws {AbortError} If the signal is aborted
+ *
+ * @example
+ * ```typescript
+ * const stats = await getProcessStats(1234);
+ * if (stats.cpuPercent! > 90 || stats.rssBytes! > 2 * 1024 ** 3) {
+ *   alert(`PID 1234 is using too much (${stats.threads} threads, ${stats.fdCount} fds)`);
+ * }
+ *
+ * // Several processes sampled over the same second
+ * const all = await getProcessStats([1234, 5678], { sampleMs: 1000 });
+ * ```
+ */
+export function getProcessStats(pid: number, options?: ProcessStatsOptions): Promise<ProcessStats>;
+export function getProcessStats(pids: number[], options?: ProcessStatsOptions): Promise<ProcessStats[]>;
+export function getProcessStats(target: number | number[], options: ProcessStatsOptions = {}): Promise<ProcessStats | ProcessStats[]> {
+    return withLogContext('getProcessStats', false, async () => {
+        const { sampleMs = DEFAULT_SAMPLE_MS, timeoutMs, abortSignal } = options;
+        const pids = Array.isArray(target) ? [...new Set(target)] : [target];
+
+        for (const pid of pids) {
+            if (!Number.isInteger(pid) || pid <= 0) {
+                throw new InvalidInputError(`Invalid PID: ${pid}. Must be a positive integer.`);
+            }
+        }
+        if (!Number.isFinite(sampleMs) || sampleMs < 0) {
+            throw new InvalidInputError(`Invalid sampleMs: ${sampleMs}. Must be a non-negative number.`);
+        }
+
+        let before = new Map<number, ProcessInfo>();
+        let startedAt = 0;
+        if (sampleMs > 0) {
+            before = await readProcesses(pids, timeoutMs, abortSignal);
+            startedAt = Date.now();
+            await sleep(sampleMs, abortSignal);
+        }
+
+        const after = await readProcesses(pids.filter(pid => sampleMs === 0 || before.has(pid)), timeoutMs, abortSignal);
+        const elapsedMs = Date.now() - startedAt;
+
+        const stats = pids
+            .filter(pid => after.has(pid))
+            .map(pid => toStats(after.get(pid)!, before.get(pid), elapsedMs));
+
+        log.debug(`Sampled stats for ${stats.length} of ${pids.length} processes`, { operation: 'getProcessStats' });
+
+        if (Array.isArray(target)) return stats;
+        if (stats.length === 0) {
+            throw new ProcessNotFoundError(`Process ${target} not found or inaccessible`);
+        }
+        return stats[0];
+    });
+}
@@ -0,0 +1,601 @@
+/**
+ * Default ProcessBackend talking to the real operating system
+ * - Linux: /proc, falling back to the Unix commands below
+ * - Unix: ps, lsof and process.kill
+ * - Windows: PowerShell Get-CimInstance, netstat and taskkill
+ * @module system-backend
+ */
+
+import { AbortError, CommandExecutionError, ProcessNotFoundError } from './errors';
+import { log } from './logger';
+import {
+    hasProcfs, procGetProcess, procGetProcessPaths, procIsAlive, procListOpenFiles, procListProcesses, procListSockets,
+    procListWorkingDirectories
+} from './procfs';
+import type {
+    FileAccessMode, OpenFileInfo, OpenFileQuery, ProcessBackend, ProcessInfo, ProcessPaths, SocketInfo, SocketQuery, UnixSignal
+} from './types';
+import { execText, isWindows, parsePortFromAddress, parseProcessState, parseWindowsPsJson, throwIfAborted } from './utils';
+
+// ============================================================================
+// Unix (ps / lsof / process.kill)
+// ============================================================================
+
+/**
+ * ps columns shared by listProcesses and getProcess
+ * comm comes before args so that args (which may contain spaces) is last
+ */
+const PS_COLUMNS = 'pid=,ppid=,pgid=,sess=,user=,uid=,state=,etime=,time=,%cpu=,%mem=,rss=,vsz=,comm=,args=';
+
+/**
+ * Parse a ps elapsed or CPU time ("[[dd-]hh:]mm:ss[.cc]") into seconds
+ * @internal
+ */
+export const parseEtime = (etime: string): number => {
+    const [days, clock] = etime.includes('-') ? etime.split('-') : ['0', etime];
+    const parts = clock.split(':').map(Number).reverse();
+    return Number(days) * 86400 + (parts[2] || 0) * 3600 + (parts[1] || 0) * 60 + (parts[0] || 0);
+};
+
+/**
+ * Parse `ps -o pid=,ppid=,pgid=,sess=,user=,uid=,state=,etime=,time=,%cpu=,%mem=,rss=,vsz=,comm=,args=` output
+ * macOS prints a kernel address for sess, so non-numeric session ids are dropped
+ * @internal
+ */
+export const parsePsOutput = (out: string): ProcessInfo[] => {
+    const result: ProcessInfo[] = [];
+    const now = Date.now();
+
+    for (const line of out.split(/\r?\n/)) {
+        const match = line.match(/^\s*(\d+)\s+(\d+)\s+(\d+)\s+(\S+)\s+(\S+)\s+(\d+)\s+(\S+)\s+([\d:-]+)\s+([\d:.-]+)\s+([\d.]+)\s+([\d.]+)\s+(\d+)\s+(\d+)\s+(\S+)\s*(.*)$/);
+        if (!match) continue;
+
+        result.push({
+            pid: Number(match[1]),
+            parentPid: Number(match[2]),
+            pgid: Number(match[3]),
+            sessionId: /^\d+$/.test(match[4]) ? Number(match[4]) : undefined,
+            user: match[5],
+            uid: Number(match[6]),
+            state: parseProcessState(match[7]),
+            startTime: now - parseEtime(match[8]) * 1000,
+            elapsedMs: parseEtime(match[8]) * 1000,
+            cpuTimeMs: Math.round(parseEtime(match[9]) * 1000),
+            cpuPercent: Number(match[10]),
+            cpuUsage: `${match[10]}%`,
+            memoryUsage: `${match[11]}%`,
+            memoryBytes: Number(match[12]) * 1024,
+            virtualBytes: Number(match[13]) * 1024,
+            name: match[14],
+            command: match[15] || match[14],
+        });
+    }
+
+    return result;
+};
+
+/**
+ * Parse `lsof -nP -i` output into sockets
+ *
+ * Line format:
+ *   COMMAND PID USER FD TYPE DEVICE SIZE/OFF NODE NAME
+ *   node    1234 me  22u IPv4 0x...  0t0     TCP  127.0.0.1:3000->127.0.0.1:5432 (ESTABLISHED)
+ *
+ * @internal
+ */
+export const parseLsofOutput = (out: string): SocketInfo[] => {
+    const result: SocketInfo[] = [];
+
+    for (const line of out.split(/\r?\n/).slice(1)) {
+        const parts = line.trim().split(/\s+/);
+        const nodeIdx = parts.findIndex(p => p === 'TCP' || p === 'UDP');
+        if (nodeIdx < 0 || parts.length <= nodeIdx + 1) continue;
+
+        const pid = Number(parts[1]);
+        const localAddr = parts[nodeIdx + 1].split('->')[0];
+        const port = parsePortFromAddress(localAddr);
+        const state = parts[nodeIdx + 2]?.match(/^\((\w+)\)$/)?.[1];
+
+        if (!pid || !port) continue;
+        result.push({
+            pid,
+            port,
+            protocol: parts[nodeIdx] === 'TCP' ? 'tcp' : 'udp',
+            state,
+        });
+    }
+
+    return result;
+};
+
+const unixListProcesses = async (timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessInfo[]> =>
+    parsePsOutput(await execText(`ps -A -o ${PS_COLUMNS}`, timeoutMs, abortSignal));
+
+const unixGetProcess = async (pid: number, timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessInfo | null> => {
+    try {
+        const [info] = parsePsOutput(await execText(`ps -p ${pid} -o ${PS_COLUMNS}`, timeoutMs, abortSignal));
+        return info || null;
+    } catch (error) {
+        // ps exits non-zero when the PID doesn't exist
+        if (error instanceof CommandExecutionError) return null;
+        throw error;
+    }
+};
+
+/**
+ * Parse `lsof -a -p <pid> -d cwd,txt -Ffn` output
+ *
+ * Field output lists one "f<descriptor>" line followed by its "n<path>" line;
+ * the first txt entry is the executable, the rest are mapped libraries.
+ *
+ * @internal
+ */
+export const parseLsofPaths = (out: string): ProcessPaths => {
+    const paths: ProcessPaths = {};
+    let fd = '';
+    for (const line of out.split(/\r?\n/)) {
+        if (line.startsWith('f')) fd = line.slice(1);
+        else if (line.startsWith('n') && fd === 'cwd') paths.cwd ??= line.slice(1);
+        else if (line.startsWith('n') && fd === 'txt') paths.exe ??= line.slice(1);
+    }
+    return paths;
+};
+
+/**
+ * Read cwd and executable path with lsof (see parseLsofPaths)
+ * @internal
+ */
+const unixGetProcessPaths = async (pid: number, timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessPaths | null> => {
+    let out: string;
+    try {
+        out = await execText(`lsof -a -p ${pid} -d cwd,txt -Ffn`, timeoutMs, abortSignal);
+    } catch (error) {
+        // lsof exits 1 when the PID doesn't exist
+        if (error instanceof CommandExecutionError) return null;
+        throw error;
+    }
+    return parseLsofPaths(out);
+};
+
+/**
+ * Parse `lsof -d cwd -Fpn` output
+ *
+ * Field output lists a "p<pid>" line followed by the "n<path>" of its cwd.
+ * Unreadable entries look like "n/proc/1/cwd (readlink: Permission denied)"
+ * and are skipped.
+ *
+ * @internal
+ */
+export const parseLsofCwds = (out: string): Map<number, string> => {
+    const cwds = new Map<number, string>();
+    let pid = 0;
+    for (const line of out.split(/\r?\n/)) {
+        if (line.startsWith('p')) pid = Number(line.slice(1));
+        else if (line.startsWith('n') && pid && !/ \((readlink|stat): /.test(line)) cwds.set(pid, line.slice(1));
+    }
+    return cwds;
+};
+
+/**
+ * Read every process's working directory with lsof (see parseLsofCwds)
+ * @internal
+ */
+const unixListWorkingDirectories = async (timeoutMs?: number, abortSignal?: AbortSignal): Promise<Map<number, string>> => {
+    // lsof exits 1 as soon as one process can't be inspected, even with output for the rest
+    return parseLsofCwds(await execText('lsof -d cwd -Fpn || true', timeoutMs, abortSignal));
+};
+
+/**
+ * lsof names for uses without a descriptor, mapped to OpenFileInfo.fd values
+ * @internal
+ */
+const LSOF_FD_NAMES: Record<string, string> = { txt: 'exe', rtd: 'root' };
+
+/**
+ * lsof access mode letters (r, w, u)
+ * @internal
+ */
+const LSOF_ACCESS_MODES: Record<string, FileAccessMode> = { r: 'read', w: 'write', u: 'readwrite' };
+
+/**
+ * Parse `lsof -Fpfan` output
+ *
+ * Field output lists "p<pid>", then for each file "f<fd>", "a<mode>" and
+ * "n<path>" lines.
+ *
+ * @internal
+ */
+export const parseLsofOpenFiles = (out: string): OpenFileInfo[] => {
+    const result: OpenFileInfo[] = [];
+    let pid = 0;
+    let fd = '';
+    let mode: FileAccessMode | undefined;
+    for (const line of out.split(/\r?\n/)) {
+        const value = line.slice(1);
+        switch (line.charAt(0)) {
+            case 'p':
+                pid = Number(value);
+                break;
+            case 'f':
+                fd = value;
+                mode = undefined;
+                break;
+            case 'a':
+                mode = LSOF_ACCESS_MODES[value.trim()];
+                break;
+            case 'n':
+                if (!pid) break;
+                result.push({
+                    pid,
+                    fd: /^\d+$/.test(fd) ? Number(fd) : LSOF_FD_NAMES[fd] ?? fd,
+                    path: value,
+                    mode,
+                });
+                break;
+        }
+    }
+    return result;
+};
+
+/**
+ * List processes holding a file with `lsof -Fpfan -- <path>`
+ * (`+D <path>` to include everything below a directory)
+ *
+ * @internal
+ */
+const unixListOpenFiles = async (query: OpenFileQuery, timeoutMs?: number, abortSignal?: AbortSignal): Promise<OpenFileInfo[]> => {
+    const quoted = `'${query.path.replace(/'/g, `'\\''`)}'`;
+    // lsof exits 1 when nothing holds the path, and after any warning even with output
+    const out = await execText(`lsof -Fpfan ${query.recursive ? `+D ${quoted}` : `-- ${quoted}`} || true`, timeoutMs, abortSignal);
+    return parseLsofOpenFiles(out);
+};
+
+const unixListSockets = async (query: SocketQuery, timeoutMs?: number, abortSignal?: AbortSignal): Promise<SocketInfo[]> => {
+    const cmd = query.pid !== undefined
+        ? `lsof -nP -a -p ${query.pid} -i${query.port !== undefined ? ` :${query.port}` : ''}`
+        : `lsof -nP -i${query.port !== undefined ? ` :${query.port}` : ''}`;
+
+    let out: string;
+    try {
+        out = await execText(cmd, timeoutMs, abortSignal);
+    } catch (error) {
+        // lsof exits 1 with no output when nothing matches
+        if (error instanceof CommandExecutionError) return [];
+        throw error;
+    }
+
+    // lsof -i :port also matches the remote end of outbound connections
+    return parseLsofOutput(out).filter(s => query.port === undefined || s.port === query.port);
+};
+
+/**
+ * Send a signal with process.kill (no child process spawned)
+ * @internal
+ */
+const unixSendSignal = async (
+    pid: number,
+    signal: UnixSignal,
+    _timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<void> => {
+    throwIfAborted(abortSignal);
+
+    try {
+        process.kill(pid, signal);
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ESRCH') {
+            throw new ProcessNotFoundError(`Process ${pid} not found`);
+        }
+        throw new CommandExecutionError(
+            `Failed to send ${signal} to process ${pid}: ${(error as Error).message}`,
+            `kill -s ${signal} ${pid}`
+        );
+    }
+};
+
+/**
+ * Signal a whole process group with process.kill(-pgid)
+ * @internal
+ */
+const unixSendGroupSignal = async (
+    pgid: number,
+    signal: UnixSignal,
+    _timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<void> => {
+    throwIfAborted(abortSignal);
+
+    try {
+        process.kill(-pgid, signal);
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ESRCH') {
+            throw new ProcessNotFoundError(`Process group ${pgid} not found`);
+        }
+        throw new CommandExecutionError(
+            `Failed to send ${signal} to process group ${pgid}: ${(error as Error).message}`,
+            `kill -s ${signal} -- -${pgid}`
+        );
+    }
+};
+
+/**
+ * Check process existence with signal 0
+ * EPERM means the process exists but belongs to another user
+ * @internal
+ */
+const unixIsAlive = async (pid: number): Promise<boolean> => {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+};
+
+// ============================================================================
+// Windows (PowerShell / netstat / taskkill)
+// ============================================================================
+
+/**
+ * Win32_Process record as emitted by ConvertTo-Json (see WIN32_PROCESS_FIELDS)
+ * PowerShell writes null for values it can't read (e.g. the command line of
+ * elevated processes) and may serialize 64-bit counters as strings.
+ * @internal
+ */
+export interface Win32Process {
+    ProcessId?: number | null;
+    Name?: string | null;
+    CommandLine?: string | null;
+    ParentProcessId?: number | null;
+    WorkingSetSize?: number | string | null;
+    CreationDate?: string | null;
+    VirtualSize?: number | string | null;
+    ThreadCount?: number | string | null;
+    HandleCount?: number | string | null;
+    KernelModeTime?: number | string | null;
+    UserModeTime?: number | string | null;
+}
+
+/**
+ * Read a non-negative count from a Win32_Process field
+ * @returns The number, or undefined if the field is missing or not numeric
+ * @internal
+ */
+const toCount = (value: unknown): number | undefined => {
+    if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+    if (typeof value === 'string' && value.trim() === '') return undefined;
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+/**
+ * Convert a Win32_Process JSON record into ProcessInfo
+ * @returns ProcessInfo, or null if the record has no valid ProcessId
+ * @internal
+ */
+export const fromWin32Process = (p: Win32Process): ProcessInfo | null => {
+    const pid = toCount(p?.ProcessId);
+    if (pid === undefined || !Number.isInteger(pid)) return null;
+
+    const info: ProcessInfo = {
+        pid,
+        name: typeof p.Name === 'string' && p.Name ? p.Name : undefined,
+        command: typeof p.CommandLine === 'string' && p.CommandLine ? p.CommandLine : undefined,
+        parentPid: toCount(p.ParentProcessId) || undefined,
+    };
+
+    // Convert memory from bytes to MB
+    const workingSet = toCount(p.WorkingSetSize);
+    if (workingSet) {
+        info.memoryBytes = workingSet;
+        info.memoryUsage = `${Math.round(workingSet / 1024 / 1024)} MB`;
+    }
+
+    const virtualBytes = toCount(p.VirtualSize);
+    const threads = toCount(p.ThreadCount);
+    const handles = toCount(p.HandleCount);
+    if (virtualBytes) info.virtualBytes = virtualBytes;
+    if (threads) info.threads = threads;
+    if (handles) info.fdCount = handles;
+
+    // Kernel and user times are reported in 100 ns units
+    const kernelTime = toCount(p.KernelModeTime);
+    const userTime = toCount(p.UserModeTime);
+    if (kernelTime !== undefined || userTime !== undefined) {
+        info.cpuTimeMs = ((kernelTime ?? 0) + (userTime ?? 0)) / 10000;
+    }
+
+    // Windows PowerShell serializes dates as "/Date(ms)/", PowerShell 7 as ISO strings
+    if (typeof p.CreationDate === 'string' && p.CreationDate) {
+        const ms = p.CreationDate.match(/\/Date\((\d+)/)?.[1];
+        const startTime = ms ? Number(ms) : Date.parse(p.CreationDate);
+        if (!Number.isNaN(startTime)) {
+            info.startTime = startTime;
+            info.elapsedMs = Math.max(0, Date.now() - startTime);
+        }
+    }
+
+    return info;
+};
+
+const WIN32_PROCESS_FIELDS = 'ProcessId,Name,CommandLine,ParentProcessId,WorkingSetSize,CreationDate,VirtualSize,ThreadCount,HandleCount,KernelModeTime,UserModeTime';
+
+const windowsListProcesses = async (timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessInfo[]> => {
+    const psCmd = `powershell -NoProfile -Command "Get-CimInstance Win32_Process | Select-Object ${WIN32_PROCESS_FIELDS} | ConvertTo-Json -Compress"`;
+    return (parseWindowsPsJson(await execText(psCmd, timeoutMs, abortSignal)) as Win32Process[])
+        .map(fromWin32Process)
+        .filter((info): info is ProcessInfo => info !== null);
+};
+
+const windowsGetProcess = async (pid: number, timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessInfo | null> => {
+    const psCmd = `powershell -NoProfile -Command "Get-CimInstance Win32_Process -Filter \\"ProcessId = ${pid}\\" | Select-Object ${WIN32_PROCESS_FIELDS} | ConvertTo-Json -Compress"`;
+    const [data] = parseWindowsPsJson(await execText(psCmd, timeoutMs, abortSignal)) as Win32Process[];
+    return data ? fromWin32Process(data) : null;
+};
+
+/**
+ * Read the executable path from Win32_Process
+ * Windows exposes no working directory of other processes, so cwd is never set
+ * @internal
+ */
+const windowsGetProcessPaths = async (pid: number, timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessPaths | null> => {
+    const psCmd = `powershell -NoProfile -Command "Get-CimInstance Win32_Process -Filter \\"ProcessId = ${pid}\\" | Select-Object ProcessId,ExecutablePath | ConvertTo-Json -Compress"`;
+    const [data] = parseWindowsPsJson(await execText(psCmd, timeoutMs, abortSignal)) as Array<{ ExecutablePath?: string }>;
+    return data ? { exe: data.ExecutablePath || undefined } : null;
+};
+
+/**
+ * Parse `netstat -ano` output
+ *
+ * Line formats:
+ *   TCP    0.0.0.0:3000    0.0.0.0:0    LISTENING    1234
+ *   UDP    0.0.0.0:5353    *:*                       5678
+ *
+ * @internal
+ */
+export const parseNetstatOutput = (out: string): SocketInfo[] => {
+    const result: SocketInfo[] = [];
+
+    for (const line of out.split(/\r?\n/)) {
+        const parts = line.trim().split(/\s+/);
+        const proto = parts[0];
+        if (proto !== 'TCP' && proto !== 'UDP') continue;
+
+        const pid = Number(parts[parts.length - 1]);
+        const port = parsePortFromAddress(parts[1]);
+        if (!pid || !port) continue;
+
+        const state = proto === 'TCP' ? parts[3] : undefined;
+        result.push({
+            pid,
+            port,
+            protocol: proto === 'TCP' ? 'tcp' : 'udp',
+            state: state === 'LISTENING' ? 'LISTEN' : state,
+        });
+    }
+
+    return result;
+};
+
+const windowsListSockets = async (query: SocketQuery, timeoutMs?: number, abortSignal?: AbortSignal): Promise<SocketInfo[]> =>
+    parseNetstatOutput(await execText('netstat -ano', timeoutMs, abortSignal))
+        .filter(s => (query.port === undefined || s.port === query.port) && (query.pid === undefined || s.pid === query.pid));
+
+const windowsSendSignal = async (
+    pid: number,
+    _signal: UnixSignal,
+    timeoutMs?: number,
+    abortSignal?: AbortSignal
+): Promise<void> => {
+    // Windows has no signals: taskkill /F always force-terminates
+    await execText(`taskkill /PID ${pid} /F`, timeoutMs, abortSignal);
+};
+
+const windowsIsAlive = async (pid: number): Promise<boolean> => {
+    try {
+        const out = await execText(`tasklist /FI "PID eq ${pid}" /NH`, 1000);
+        return out.includes(`${pid}`);
+    } catch {
+        return false;
+    }
+};
+
+// ============================================================================
+// Linux (/proc with Unix fallback)
+// ============================================================================
+
+/**
+ * Run a /proc reader, falling back to the shell implementation on failure
+ * /proc reads are not interruptible, so the abort signal is checked before them
+ * @internal
+ */
+const withProcfs = async <T>(
+    what: string,
+    native: () => Promise<T>,
+    fallback: () => Promise<T>,
+    abortSignal?: AbortSignal
+): Promise<T> => {
+    throwIfAborted(abortSignal);
+
+    try {
+        return await native();
+    } catch (error) {
+        if (error instanceof AbortError) throw error;
+        log.debug(`procfs ${what} failed, falling back to shell: ${(error as Error).message}`);
+        return await fallback();
+    }
+};
+
+// ============================================================================
+// Backend
+// ============================================================================
+
+/**
+ * The system backend used by default
+ *
+ * @example
+ * ```typescript
+ * import { setBackend, systemBackend } from 'kproc';
+ *
+ * // Wrap the system backend to audit every signal
+ * setBackend({
+ *   ...systemBackend,
+ *   sendSignal: async (pid, signal, timeoutMs, abortSignal) => {
+ *     console.log(`Sending ${signal} to ${pid}`);
+ *     await systemBackend.sendSignal(pid, signal, timeoutMs, abortSignal);
+ *   }
+ * });
+ * ```
+ */
+export const systemBackend: ProcessBackend = isWindows
+    ? {
+        name: 'windows',
+        supportsSignals: false,
+        listProcesses: windowsListProcesses,
+        getProcess: windowsGetProcess,
+        listSockets: (query = {}, timeoutMs, abortSignal) => windowsListSockets(query, timeoutMs, abortSignal),
+        sendSignal: windowsSendSignal,
+        getProcessPaths: windowsGetProcessPaths,
+        isAlive: windowsIsAlive,
+    }
+    : hasProcfs
+        ? {
+            name: 'procfs',
+            supportsSignals: true,
+            listProcesses: (timeoutMs, abortSignal) => withProcfs(
+                'process list', procListProcesses, () => unixListProcesses(timeoutMs, abortSignal), abortSignal
+            ),
+            getProcess: (pid, timeoutMs, abortSignal) => withProcfs(
+                `lookup of PID ${pid}`, () => procGetProcess(pid), () => unixGetProcess(pid, timeoutMs, abortSignal), abortSignal
+            ),
+            listSockets: (query = {}, timeoutMs, abortSignal) => withProcfs(
+                'socket list', () => procListSockets(query), () => unixListSockets(query, timeoutMs, abortSignal), abortSignal
+            ),
+            sendSignal: unixSendSignal,
+            sendGroupSignal: unixSendGroupSignal,
+            getProcessPaths: (pid, timeoutMs, abortSignal) => withProcfs(
+                `paths of PID ${pid}`, () => procGetProcessPaths(pid), () => unixGetProcessPaths(pid, timeoutMs, abortSignal), abortSignal
+            ),
+            listWorkingDirectories: (timeoutMs, abortSignal) => withProcfs(
+                'working directories', procListWorkingDirectories, () => unixListWorkingDirectories(timeoutMs, abortSignal), abortSignal
+            ),
+            listOpenFiles: (query, timeoutMs, abortSignal) => withProcfs(
+                `open files of ${query.path}`, () => procListOpenFiles(query), () => unixListOpenFiles(query, timeoutMs, abortSignal), abortSignal
+            ),
+            isAlive: procIsAlive,
+        }
+        : {
+            name: 'unix',
+            supportsSignals: true,
+            listProcesses: unixListProcesses,
+            getProcess: unixGetProcess,
+            listSockets: (query = {}, timeoutMs, abortSignal) => unixListSockets(query, timeoutMs, abortSignal),
+            sendSignal: unixSendSignal,
+            sendGroupSignal: unixSendGroupSignal,
+            getProcessPaths: unixGetProcessPaths,
+            listWorkingDirectories: unixListWorkingDirectories,
+            listOpenFiles: unixListOpenFiles,
+            isAlive: unixIsAlive,
+        };
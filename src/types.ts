@@ -3,6 +3,8 @@
  * @module types
  */
 
+import type { EventEmitter } from 'events';
+
 /**
  * Unix signals that can be sent to processes
  * @typedef {string | number} UnixSignal
@@ -13,8 +15,25 @@ export type UnixSignal =
     | "SIGINT"   // Interrupt (Ctrl+C)
     | "SIGHUP"   // Hangup
     | "SIGQUIT"  // Quit
+    | "SIGSTOP"  // Suspend (cannot be caught or ignored)
+    | "SIGCONT"  // Resume a stopped process
     | number;    // Custom signal number
 
+/**
+ * One step of a signal ladder (see KillOptions.signalSequence)
+ * @interface SignalStep
+ */
+export interface SignalStep {
+    /** Signal to send at this step */
+    signal: UnixSignal;
+
+    /**
+     * Time (ms) to wait for the process to exit before the next step
+     * The last step waits at least KillOptions.verifyTimeoutMs.
+     */
+    waitMs: number;
+}
+
 /**
  * Options for killing processes
  * @interface KillOptions
@@ -36,11 +55,32 @@ export interface KillOptions {
     /**
      * Kill the entire process tree (parent and all children)
      * - Windows: Uses taskkill /T
-     * - Unix: Recursively finds and kills child PIDs
+     * - Unix: Recursively finds and kills child PIDs (see treeMode)
      * @default false
      */
     tree?: boolean;
 
+    /**
+     * How `tree: true` signals the tree
+     * - "sequential": list descendants once and signal them top-down
+     * - "freeze": SIGSTOP the whole tree, re-list until no new children
+     *   appear, signal leaves first, then SIGCONT so the signals are
+     *   delivered. Children forked mid-kill and respawning parents cannot
+     *   escape. Unix only; other backends fall back to "sequential".
+     * @default "sequential"
+     */
+    treeMode?: 'sequential' | 'freeze';
+
+    /**
+     * Signal the target's whole process group or session instead of the PID alone
+     * - "pgid": one kill(-pgid) call, so members forked meanwhile are hit too;
+     *   refused if the group contains a protected process (unless `force`)
+     * - "session": every process sharing the target's session id; protected
+     *   and vetoed members are skipped
+     * Takes precedence over `tree`. Unix only.
+     */
+    group?: 'pgid' | 'session';
+
     /**
      * Maximum time (ms) to wait for a single kill command
      * Operation fails if timeout is exceeded
@@ -60,13 +100,32 @@ export interface KillOptions {
      */
     escalationDelayMs?: number;
 
+    /**
+     * Signal ladder walked in order: send each step's signal, then poll
+     * until the process exits or the step's waitMs elapses. The last step
+     * waits at least verifyTimeoutMs, so its exit is still observed.
+     * Overrides signal, forceAfterTimeout and escalationDelayMs.
+     * On Windows only the first step is used (every kill is forceful).
+     * @example [{ signal: 'SIGINT', waitMs: 5000 }, { signal: 'SIGTERM', waitMs: 10000 }, { signal: 'SIGKILL', waitMs: 1000 }]
+     */
+    signalSequence?: SignalStep[];
+
     /**
      * Verify the process is actually dead after kill attempt
-     * Adds small delay to check process status
+     * Polls until the process exits or verifyTimeoutMs elapses. The start
+     * time recorded before the kill tells a new process that reused the
+     * PID apart from the original, so PID reuse counts as exited.
      * @default false
      */
     verify?: boolean;
 
+    /**
+     * Time (ms) verification waits for the process to exit
+     * Also the minimum wait of the last signal ladder step.
+     * @default 2000
+     */
+    verifyTimeoutMs?: number;
+
     /**
      * Maximum retry attempts if kill fails
      * @default 0 (no retry)
@@ -75,10 +134,77 @@ export interface KillOptions {
 
     /**
      * Enable debug logging for this specific operation
-     * Overrides global debug setting
+     * Applies to this call and its nested lookups only; the global
+     * level (setDebug / setLogger) is left untouched
      * @default false
      */
     debug?: boolean;
+
+    /**
+     * Bypass protected-process safeguards (PID 1, the current process,
+     * its ancestors and the configured protected list)
+     * @default false
+     */
+    force?: boolean;
+
+    /**
+     * Cancel the operation: pending commands are killed, remaining retries
+     * and batch items are skipped, and the call rejects with AbortError
+     * (batch kills attach the results gathered so far)
+     */
+    abortSignal?: AbortSignal;
+
+    /**
+     * Called before a process (including each tree child) is signalled
+     * Return false to veto the kill; the result is then marked `skipped`.
+     * `info` is null if the process details could not be read.
+     * A hook that throws also vetoes the kill.
+     */
+    onBeforeKill?: (pid: number, info: ProcessInfo | null) => boolean | void | Promise<boolean | void>;
+
+    /** Called after each signal is delivered (tree children included) */
+    onSignalSent?: (pid: number, signal: UnixSignal) => void | Promise<void>;
+
+    /** Called when a surviving process is escalated (SIGTERM → SIGKILL) */
+    onEscalate?: (pid: number, from: UnixSignal, to: UnixSignal) => void | Promise<void>;
+
+    /** Called before each retry with the retry number (1-based) and the error that caused it */
+    onRetry?: (attempt: number, error: Error, pid: number) => void | Promise<void>;
+
+    /** Called once with the final result of each targeted process */
+    onComplete?: (result: KillResult) => void | Promise<void>;
+
+    /**
+     * Maximum number of processes killed (or released ports awaited) at the
+     * same time by batch functions: killByPids, killByPorts, killByPortRange,
+     * killByName and killWhere. Use Infinity for no limit.
+     * @default 8
+     */
+    concurrency?: number;
+
+    /** Called by batch functions each time an item completes */
+    onProgress?: (progress: BatchProgress) => void | Promise<void>;
+}
+
+/**
+ * Progress of a batch operation (see KillOptions.onProgress)
+ * @interface BatchProgress
+ */
+export interface BatchProgress {
+    /**
+     * "lookup" once the ports are resolved to PIDs (reported once per
+     * socket-table snapshot), "kill" as each process is killed
+     */
+    phase: 'lookup' | 'kill';
+
+    /** Items finished so far in this phase */
+    completed: number;
+
+    /** Total items in this phase */
+    total: number;
+
+    /** Result of the kill that just finished (kill phase; undefined if it threw) */
+    result?: KillResult;
 }
 
 /**
@@ -100,6 +226,125 @@ export interface KillResult {
 
     /** Whether process death was verified (if verify option was true) */
     verified?: boolean;
+
+    /**
+     * Index of the signal step after which the process was seen exiting
+     * With forceAfterTimeout: 0 = exited on the first signal, 1 = after SIGKILL.
+     * Undefined if the process was not observed exiting.
+     */
+    sequenceStep?: number;
+
+    /**
+     * Time (ms) from the first signal until the process was seen exiting
+     * Undefined if the exit was not observed (no verify and no signal ladder).
+     */
+    exitedAfterMs?: number;
+
+    /** True if the target was deliberately not killed (e.g. protected process) */
+    skipped?: boolean;
+
+    /** Number of kill attempts made (0 if the process was skipped, already dead or a dry run) */
+    attempts?: number;
+
+    /** Total time (ms) spent on this process, including escalation, verification and retries */
+    durationMs?: number;
+
+    /** Whether a later step of the signal ladder (e.g. SIGKILL) had to be sent */
+    escalated?: boolean;
+
+    /** Name and command of the process, read before it was signalled */
+    process?: Pick<ProcessInfo, 'name' | 'command'>;
+
+    /**
+     * Outcome for each tree child, session member or process group member
+     * (tree kills and `group` kills only)
+     */
+    children?: KillResult[];
+
+    /** Port that selected the process (killByPort, killByPorts, killByPortRange) */
+    port?: number;
+
+    /** Name pattern that selected the process (killByName, killByUser) */
+    pattern?: string;
+
+    /** User name or uid that selected the process (killByUser) */
+    user?: string | number;
+
+    /** Directory that selected the process (killByCwd) */
+    directory?: string;
+
+    /** File or directory held open by the process (killByFile) */
+    file?: string;
+
+    /** Query that selected the process (killWhere) */
+    query?: ProcessQuery;
+}
+
+/**
+ * Lookup cache configuration (see configureCache)
+ * @interface CacheOptions
+ */
+export interface CacheOptions {
+    /**
+     * How long (ms) a lookup result is reused
+     * @default 1000
+     */
+    ttlMs?: number;
+
+    /**
+     * Maximum number of cached lookups; least recently used entries are evicted first
+     * @default 100
+     */
+    maxEntries?: number;
+
+    /**
+     * Set to false to bypass the cache entirely (every lookup hits the system)
+     * @default true
+     */
+    enabled?: boolean;
+}
+
+/**
+ * Cache statistics returned by getCacheStats()
+ * @interface CacheStats
+ */
+export interface CacheStats extends Required<CacheOptions> {
+    /** Number of cached entries */
+    size: number;
+
+    /** Age (ms) of the oldest entry, null if the cache is empty */
+    oldestAge: number | null;
+
+    /** Lookups answered from the cache */
+    hits: number;
+
+    /** Lookups that had to query the system */
+    misses: number;
+
+    /** Lookups that joined a fetch already running for the same key */
+    deduplicated: number;
+
+    /** Entries dropped to stay within maxEntries */
+    evictions: number;
+
+    /** Fetches currently running */
+    inFlight: number;
+}
+
+/**
+ * User-configurable protected process list
+ * Protected processes are skipped by every kill function unless `force` is set
+ * @interface ProtectionOptions
+ */
+export interface ProtectionOptions {
+    /** Protected process IDs */
+    pids?: number[];
+
+    /** Protected process names (exact, case-insensitive) */
+    names?: string[];
+
+    /** Protected owning users */
+    users?: string[];
 }
 
 /**
@@ -115,6 +360,196 @@ export interface FindByNameOptions {
     useRegex?: boolean;
 }
 
+/**
+ * Options for findPidsByUser()
+ * @interface FindByUserOptions
+ */
+export interface FindByUserOptions extends FindByNameOptions {
+    /** Only match processes whose name or command line matches this pattern */
+    pattern?: string;
+}
+
+/**
+ * Options for killByUser()
+ * @interface KillByUserOptions
+ */
+export interface KillByUserOptions extends FindByUserOptions, KillOptions {
+    /**
+     * Allow killing processes owned by root (uid 0)
+     * Without it, a selection containing a root process is refused
+     * @default false
+     */
+    allowRoot?: boolean;
+}
+
+/**
+ * Options for findPidsByCwd() / killByCwd()
+ * @interface FindByCwdOptions
+ */
+export interface FindByCwdOptions {
+    /**
+     * Also match processes running in subdirectories of the directory
+     * @default true
+     */
+    recursive?: boolean;
+}
+
+/**
+ * Options for findFileHolders(), findPidsByFile() and killByFile()
+ * @interface FindByFileOptions
+ */
+export interface FindByFileOptions {
+    /**
+     * For a directory, also match files and directories anywhere below it
+     * (e.g. everything open inside node_modules)
+     * @default false
+     */
+    recursive?: boolean;
+}
+
+/**
+ * Filter object for findPids() / killWhere()
+ * All specified criteria must match (logical AND). Strings are matched as
+ * case-insensitive substrings, RegExps as-is. A process missing a field
+ * that a criterion needs (e.g. user on Windows) does not match.
+ * @interface ProcessQuery
+ */
+export interface ProcessQuery {
+    /** Match the process (executable) name */
+    name?: string | RegExp;
+
+    /** Match the full command line with arguments */
+    command?: string | RegExp;
+
+    /** Exact owning user name or uid */
+    user?: string | number;
+
+    /** Direct parent process ID */
+    parentPid?: number;
+
+    /** Minimum age in milliseconds (process started at least this long ago) */
+    minAgeMs?: number;
+
+    /** Minimum CPU usage in percent (Unix only) */
+    minCpuPercent?: number;
+
+    /** Minimum resident memory in bytes */
+    minMemoryBytes?: number;
+
+    /** Process is listening on this port (TCP listener or bound UDP socket) */
+    port?: number;
+}
+
+/**
+ * Socket filter for port lookups and port-based kills
+ * @interface PortQueryOptions
+ */
+export interface PortQueryOptions {
+    /**
+     * Only match sockets of this protocol
+     * @default both for lookups, "tcp" for kill operations
+     */
+    protocol?: 'tcp' | 'udp';
+
+    /**
+     * Only match TCP sockets in this state
+     * - "listen": servers bound to the port
+     * - "established": connected sockets (clients and accepted connections)
+     * - "any": every state
+     * UDP sockets have no state and always pass this filter.
+     * @default "any" for lookups, "listen" for kill operations
+     */
+    state?: 'listen' | 'established' | 'any';
+}
+
+/**
+ * Options for waitForPortFree() / waitForPortInUse()
+ * @interface WaitForPortOptions
+ */
+export interface WaitForPortOptions extends PortQueryOptions {
+    /**
+     * Maximum time (ms) to wait before rejecting with TimeoutError
+     * @default 5000
+     */
+    timeoutMs?: number;
+
+    /**
+     * Time (ms) between port lookups
+     * @default 100
+     */
+    intervalMs?: number;
+
+    /** Stop waiting and reject with AbortError when aborted */
+    abortSignal?: AbortSignal;
+}
+
+/**
+ * Options for watchProcess()
+ * @interface WatchOptions
+ */
+export interface WatchOptions {
+    /**
+     * Time (ms) between lookups
+     * @default 500
+     */
+    intervalMs?: number;
+
+    /** Close the watcher when aborted */
+    abortSignal?: AbortSignal;
+}
+
+/**
+ * Options for watchPort()
+ * @interface WatchPortOptions
+ */
+export interface WatchPortOptions extends WatchOptions, PortQueryOptions {}
+
+/**
+ * Event emitted by a watcher, also yielded by its async iterator
+ * - exit: the watched process exited (the watcher then closes itself)
+ * - bound: a process started holding the watched port
+ * - released: the watched port is free again
+ */
+export type WatchEvent =
+    | { type: 'exit'; pid: number }
+    | { type: 'bound'; port: number; pid: number }
+    | { type: 'released'; port: number };
+
+/**
+ * Handle returned by watchProcess() / watchPort()
+ * 
+ * Listen with `on('exit' | 'bound' | 'released', event => ...)` or iterate
+ * with `for await (const event of watcher)`. `error` is emitted for failed
+ * lookups (polling continues) and `close` once the watcher stops.
+ * @interface Watcher
+ */
+export interface Watcher<E extends WatchEvent = WatchEvent> extends EventEmitter, AsyncIterable<E> {
+    /** Stop polling; pending iterations finish. Safe to call more than once */
+    close(): void;
+
+    /** True once the watcher has stopped */
+    readonly closed: boolean;
+}
+
+/**
+ * Options for port-based kills (killByPort, killByPorts, killByPortRange)
+ * @interface PortKillOptions
+ */
+export interface PortKillOptions extends KillOptions, PortQueryOptions {
+    /**
+     * After a successful kill, wait until the port is actually free
+     * A port that is still bound when the wait expires marks the result as failed
+     * @default false
+     */
+    waitForRelease?: boolean;
+
+    /**
+     * Maximum time (ms) to wait for the port to be released
+     * @default 5000
+     */
+    releaseTimeoutMs?: number;
+}
+
 /**
  * Detailed information about a process
  * @interface ProcessInfo
@@ -140,5 +575,466 @@ export interface ProcessInfo {
 
     /** Memory usage (format varies by OS: "128 MB" or "1.5%") */
     memoryUsage?: string;
+
+    /** Owning user name (numeric uid if the name is unknown; unavailable on Windows) */
+    user?: string;
+
+    /** Owning user id (Unix only) */
+    uid?: number;
+
+    /** Scheduling state (Unix only) */
+    state?: ProcessState;
+
+    /** Process start time in milliseconds since epoch */
+    startTime?: number;
+
+    /** Age of the process in milliseconds when it was looked up */
+    elapsedMs?: number;
+
+    /** CPU usage as a number (Unix only, lifetime average like `ps %cpu`) */
+    cpuPercent?: number;
+
+    /** Resident memory in bytes */
+    memoryBytes?: number;
+
+    /** Process group ID (Unix only) */
+    pgid?: number;
+
+    /** Session ID (Unix only; not reported by ps on macOS) */
+    sessionId?: number;
+
+    /** CPU time used so far (user + kernel) in milliseconds */
+    cpuTimeMs?: number;
+
+    /** Virtual memory size in bytes */
+    virtualBytes?: number;
+
+    /** Number of threads (Linux and Windows) */
+    threads?: number;
+
+    /** Open file descriptors (Linux, single-process lookups only) or handles (Windows) */
+    fdCount?: number;
+
+    /** Current working directory (opt-in, see ProcessInfoOptions; not available on Windows) */
+    cwd?: string;
+
+    /** Resolved executable path (opt-in, see ProcessInfoOptions) */
+    exe?: string;
+}
+
+/**
+ * Scheduling state of a process
+ * - running: on a CPU or runnable
+ * - sleeping: waiting for an event (including uninterruptible and idle sleep)
+ * - stopped: stopped by a signal (SIGSTOP, SIGTSTP) or a debugger
+ * - zombie: exited but not yet reaped by its parent
+ */
+export type ProcessState = 'running' | 'sleeping' | 'stopped' | 'zombie';
+
+/**
+ * Options for getProcessInfo()
+ * The paths cost an extra read per process, so they are only looked up on request
+ * @interface ProcessInfoOptions
+ */
+export interface ProcessInfoOptions {
+    /** Include the current working directory */
+    cwd?: boolean;
+
+    /** Include the resolved executable path */
+    exe?: boolean;
+
+    /** Timeout for each system command */
+    timeoutMs?: number;
+
+    /** Cancel the lookup */
+    abortSignal?: AbortSignal;
+}
+
+/**
+ * How a process opened a file
+ * @typedef FileAccessMode
+ */
+export type FileAccessMode = 'read' | 'write' | 'readwrite';
+
+/**
+ * A file or directory held by a process
+ * @interface OpenFileInfo
+ */
+export interface OpenFileInfo {
+    /** Process ID holding the file */
+    pid: number;
+
+    /**
+     * File descriptor number, or how the file is used without a descriptor:
+     * "cwd" (working directory), "exe" (executable), "root" (root directory)
+     * or "mem" (memory-mapped, lsof only)
+     */
+    fd: number | string;
+
+    /** Absolute path of the file */
+    path: string;
+
+    /** Access mode of the descriptor; undefined when the file is not held through a descriptor */
+    mode?: FileAccessMode;
+}
+
+/**
+ * Path filter for ProcessBackend.listOpenFiles()
+ * @interface OpenFileQuery
+ */
+export interface OpenFileQuery {
+    /** Absolute path with symlinks resolved */
+    path: string;
+
+    /** Also match everything below the path */
+    recursive?: boolean;
+}
+
+/**
+ * Filesystem paths of a process, returned by ProcessBackend.getProcessPaths()
+ * @interface ProcessPaths
+ */
+export interface ProcessPaths {
+    /** Current working directory */
+    cwd?: string;
+
+    /** Resolved executable path */
+    exe?: string;
+}
+
+/**
+ * Numeric resource usage of a process, returned by getProcessStats()
+ * Fields the platform doesn't report are undefined
+ * @interface ProcessStats
+ */
+export interface ProcessStats {
+    /** Process ID */
+    pid: number;
+
+    /**
+     * CPU usage in percent of one core, sampled over `sampleMs`
+     * (may exceed 100 for multi-threaded processes)
+     */
+    cpuPercent?: number;
+
+    /** Resident memory in bytes */
+    rssBytes?: number;
+
+    /** Virtual memory size in bytes */
+    virtualBytes?: number;
+
+    /** Number of threads */
+    threads?: number;
+
+    /** Open file descriptors (handles on Windows) */
+    fdCount?: number;
+
+    /** Process start time in milliseconds since epoch */
+    startTime?: number;
+}
+
+/**
+ * Options for getProcessStats()
+ * @interface ProcessStatsOptions
+ */
+export interface ProcessStatsOptions {
+    /**
+     * Time (ms) between the two CPU readings
+     * 0 reports the lifetime average (like `ps %cpu`) without waiting
+     * @default 500
+     */
+    sampleMs?: number;
+
+    /** Timeout for each system command */
+    timeoutMs?: number;
+
+    /** Cancel the sampling */
+    abortSignal?: AbortSignal;
+}
+
+
+/**
+ * Node in a process tree built from a single process snapshot
+ * @interface ProcessTreeNode
+ */
+export interface ProcessTreeNode {
+    /** Process ID */
+    pid: number;
+
+    /** Process details from the snapshot */
+    info: ProcessInfo;
+
+    /** Direct child processes */
+    children: ProcessTreeNode[];
+}
+
+/**
+ * A network socket owned by a process
+ * @interface SocketInfo
+ */
+export interface SocketInfo {
+    /** Process ID owning the socket */
+    pid: number;
+
+    /** Local port number */
+    port: number;
+
+    /** Transport protocol */
+    protocol: 'tcp' | 'udp';
+
+    /**
+     * Connection state, normalized to lsof-style names
+     * (e.g. "LISTEN", "ESTABLISHED"); undefined for UDP
+     */
+    state?: string;
+}
+
+/**
+ * Filter for ProcessBackend.listSockets()
+ * Omitted fields match every socket
+ * @interface SocketQuery
+ */
+export interface SocketQuery {
+    /** Only sockets bound to this local port */
+    port?: number;
+
+    /** Only sockets owned by this PID */
+    pid?: number;
+}
+
+/**
+ * Low-level process access used by every lookup and kill function
+ *
+ * kproc ships a system backend (/proc on Linux, ps/lsof/kill on Unix,
+ * PowerShell/netstat/taskkill on Windows) and an in-memory backend for tests.
+ * Swap implementations at runtime with setBackend().
+ *
+ * @interface ProcessBackend
+ */
+export interface ProcessBackend {
+    /** Human-readable backend name, used in debug logs */
+    readonly name: string;
+
+    /**
+     * Whether distinct Unix signals are honoured
+     * False on Windows, where every kill is forceful and escalation is skipped
+     */
+    readonly supportsSignals: boolean;
+
+    /**
+     * List every running process
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     */
+    listProcesses(timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessInfo[]>;
+
+    /**
+     * Get details for a single process (ports not included)
+     * @param pid - Process ID
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     * @returns ProcessInfo, or null if the process doesn't exist
+     */
+    getProcess(pid: number, timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessInfo | null>;
+
+    /**
+     * List network sockets matching the query
+     * @param query - Port/PID filter
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     */
+    listSockets(query?: SocketQuery, timeoutMs?: number, abortSignal?: AbortSignal): Promise<SocketInfo[]>;
+
+    /**
+     * Send a signal to a single process
+     * @param pid - Process ID
+     * @param signal - Signal to send (backends without signal support force-kill)
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     * @throws {ProcessNotFoundError} If the process doesn't exist
+     */
+    sendSignal(pid: number, signal: UnixSignal, timeoutMs?: number, abortSignal?: AbortSignal): Promise<void>;
+
+    /**
+     * Send a signal to every member of a process group in one call
+     * Optional; `group: 'pgid'` kills are rejected on backends without it
+     * @param pgid - Process group ID
+     * @param signal - Signal to send
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     * @throws {ProcessNotFoundError} If the group has no members
+     */
+    sendGroupSignal?(pgid: number, signal: UnixSignal, timeoutMs?: number, abortSignal?: AbortSignal): Promise<void>;
+
+    /**
+     * Read the working directory and executable path of a process
+     * Optional; without it getProcessInfo() only reports paths getProcess() returns
+     * @param pid - Process ID
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     * @returns Paths that could be read, or null if the process doesn't exist
+     */
+    getProcessPaths?(pid: number, timeoutMs?: number, abortSignal?: AbortSignal): Promise<ProcessPaths | null>;
+
+    /**
+     * Read the working directory of every process in one pass
+     * Optional; without it cwd lookups use the `cwd` field of listProcesses()
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     * @returns Map of PID → working directory (unreadable processes left out)
+     */
+    listWorkingDirectories?(timeoutMs?: number, abortSignal?: AbortSignal): Promise<Map<number, string>>;
+
+    /**
+     * List the processes holding a file or directory
+     * Optional; file lookups are rejected on backends without it
+     * @param query - Path filter
+     * @param timeoutMs - Optional command timeout
+     * @param abortSignal - Optional AbortSignal that cancels the command
+     */
+    listOpenFiles?(query: OpenFileQuery, timeoutMs?: number, abortSignal?: AbortSignal): Promise<OpenFileInfo[]>;
+
+    /**
+     * Check whether a process exists
+     * @param pid - Process ID
+     */
+    isAlive(pid: number): Promise<boolean>;
+}
+
+/**
+ * Options for createMemoryBackend()
+ * @interface MemoryBackendOptions
+ */
+export interface MemoryBackendOptions {
+    /** Initial process table */
+    processes?: ProcessInfo[];
+
+    /** Initial socket table */
+    sockets?: SocketInfo[];
+
+    /** Initial open file table */
+    openFiles?: OpenFileInfo[];
+
+    /**
+     * Decide how a process reacts to a signal
+     * Return false to keep the process alive; any other value kills it.
+     * Throw to make sendSignal() fail. Signal 0, SIGSTOP and SIGCONT never
+     * reach this callback and never kill.
+     * @default every signal kills the process
+     */
+    onSignal?: (pid: number, signal: UnixSignal) => boolean | void;
+}
+
+/**
+ * In-memory ProcessBackend with a scriptable process table
+ * @interface MemoryBackend
+ */
+export interface MemoryBackend extends ProcessBackend {
+    /** Every signal delivered so far, in order (group signals are recorded with pid -pgid) */
+    readonly signals: Array<{ pid: number; signal: UnixSignal }>;
+
+    /** Add or replace a process in the table */
+    addProcess(info: ProcessInfo): void;
+
+    /** Remove a process, its sockets and open files, as if it exited */
+    removeProcess(pid: number): void;
+
+    /** Add a socket to the table */
+    addSocket(socket: SocketInfo): void;
+
+    /** Add an open file to the table */
+    addOpenFile(file: OpenFileInfo): void;
 }
 
+/**
+ * Log levels, from most to least verbose
+ * "silent" disables all output
+ * @typedef LogLevel
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured context attached to a log line
+ * @interface LogFields
+ */
+export interface LogFields {
+    /** Process ID the line is about */
+    pid?: number;
+
+    /** Port the line is about */
+    port?: number;
+
+    /** Public function that produced the line (e.g. "killByPort") */
+    operation?: string;
+
+    /** Id shared by every line of one public call, for correlation */
+    operationId?: string;
+}
+
+/**
+ * A single structured log record, as passed to function sinks
+ * and written by the JSON line format
+ * @interface LogRecord
+ */
+export interface LogRecord extends LogFields {
+    /** Severity of the record */
+    level: Exclude<LogLevel, 'silent'>;
+
+    /** Human-readable message */
+    message: string;
+
+    /** Time the record was created, in milliseconds since epoch */
+    time: number;
+}
+
+/**
+ * Object-style logger such as pino or winston
+ *
+ * Loggers with a `log(level, message, meta)` method (winston) are called
+ * through it, message first. Others (pino) are called as
+ * `logger[level](fields, message)`.
+ * @interface LoggerLike
+ */
+export interface LoggerLike {
+    debug(fields: LogFields, message: string): void;
+    info(fields: LogFields, message: string): void;
+    warn(fields: LogFields, message: string): void;
+    error(fields: LogFields, message: string): void;
+
+    /** winston-style entry point; preferred when present */
+    log?(level: Exclude<LogLevel, 'silent'>, message: string, meta: LogFields): void;
+}
+
+/**
+ * Destination for kproc log output: a function receiving structured
+ * records, or a pino or winston logger object (see LoggerLike)
+ * @typedef LogSink
+ */
+export type LogSink = ((record: LogRecord) => void) | LoggerLike;
+
+/**
+ * Options for setLogger()
+ * Omitted fields keep their current value
+ * @interface LoggerOptions
+ */
+export interface LoggerOptions {
+    /**
+     * Custom destination; null restores the built-in console output
+     * @default console
+     */
+    sink?: LogSink | null;
+
+    /**
+     * Minimum level that is emitted
+     * @default "info"
+     */
+    level?: LogLevel;
+
+    /**
+     * Line format of the built-in console output (ignored by custom sinks)
+     * - "text": `[kproc:level] message`
+     * - "json": one JSON-encoded LogRecord per line
+     * @default "text"
+     */
+    format?: 'text' | 'json';
+}
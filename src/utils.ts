@@ -4,7 +4,8 @@
  */
 
 import { exec } from "child_process";
-import { CommandExecutionError, InvalidInputError, TimeoutError } from './errors';
+import { AbortError, CommandExecutionError, InvalidInputError, TimeoutError } from './errors';
+import type { KillResult, PortQueryOptions, ProcessInfo, ProcessState, SocketInfo } from './types';
 
 /**
  * Detect if running on Windows platform
@@ -52,15 +53,33 @@ export const withTimeout = (promise: Promise<string>, ms?: number): Promise<stri
     });
 };
 
+/**
+ * Throw an AbortError if the signal has been aborted
+ * Called between steps of long operations so they stop promptly
+ * 
+ * @param abortSignal - Optional AbortSignal
+ * @param results - Kill results gathered so far, attached to the error
+ * @throws {AbortError} If the signal is aborted
+ * 
+ * @internal
+ */
+export const throwIfAborted = (abortSignal?: AbortSignal, results?: KillResult[]): void => {
+    if (abortSignal?.aborted) {
+        throw new AbortError('Operation aborted', results);
+    }
+};
+
 /**
  * Execute a shell command and return stdout as string
- * Wraps Node's exec() with better error handling and timeout support
+ * Wraps Node's exec() with better error handling, timeout and abort support
  * 
  * @param cmd - Shell command to execute
  * @param timeoutMs - Optional timeout in milliseconds
+ * @param abortSignal - Optional AbortSignal; aborting kills the child command
  * @returns Stdout output as string
  * @throws {CommandExecutionError} If command fails
  * @throws {TimeoutError} If command exceeds timeout
+ * @throws {AbortError} If the signal is aborted
  * 
  * @example
  * ```typescript
@@ -69,14 +88,23 @@ export const withTimeout = (promise: Promise<string>, ms?: number): Promise<stri
  * 
  * // With timeout
  * const output = await execText('long-running-cmd', 5000);
+ * 
+ * // Cancellable
+ * const output = await execText('long-running-cmd', undefined, controller.signal);
  * ```
  */
-export const execText = async (cmd: string, timeoutMs?: number): Promise<string> => {
+export const execText = async (cmd: string, timeoutMs?: number, abortSignal?: AbortSignal): Promise<string> => {
+    throwIfAborted(abortSignal);
+
     try {
         return await withTimeout(
             new Promise((resolve, reject) => {
-                exec(cmd, { windowsHide: true }, (err, stdout, stderr) => {
+                exec(cmd, { windowsHide: true, signal: abortSignal }, (err, stdout, stderr) => {
                     if (err) {
+                        if (abortSignal?.aborted) {
+                            reject(new AbortError());
+                            return;
+                        }
                         // Prefer stderr if available, fallback to err.message
                         const errorMsg = stderr?.trim() || err.message;
                         reject(new CommandExecutionError(`Command failed: ${errorMsg}`, cmd));
@@ -88,8 +116,8 @@ export const execText = async (cmd: string, timeoutMs?: number): Promise<string>
             timeoutMs
         );
     } catch (error) {
-        // Re-throw timeout errors as-is
-        if (error instanceof TimeoutError) {
+        // Re-throw timeout and abort errors as-is
+        if (error instanceof TimeoutError || error instanceof AbortError) {
             throw error;
         }
         // Wrap other errors in CommandExecutionError
@@ -102,7 +130,9 @@ export const execText = async (cmd: string, timeoutMs?: number): Promise<string>
  * Useful for delays between retry attempts or waiting for process cleanup
  * 
  * @param ms - Milliseconds to sleep
+ * @param abortSignal - Optional AbortSignal that ends the sleep early
  * @returns Promise that resolves after the delay
+ * @throws {AbortError} If the signal is aborted before the delay ends
  * 
  * @example
  * ```typescript
@@ -111,43 +141,79 @@ export const execText = async (cmd: string, timeoutMs?: number): Promise<string>
  * console.log('Done!');
  * ```
  */
-export const sleep = (ms: number): Promise<void> =>
-    new Promise(resolve => setTimeout(resolve, ms));
+export const sleep = (ms: number, abortSignal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (abortSignal?.aborted) {
+            reject(new AbortError());
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError());
+        };
+        const timer = setTimeout(() => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Number of items batch functions process at the same time by default
+ * (KillOptions.concurrency)
+ */
+export const DEFAULT_CONCURRENCY = 8;
 
 /**
- * Check if a process exists/is alive by PID
- * Uses platform-specific commands that don't actually kill the process
+ * Promise.allSettled over items.map(fn), with at most `limit` calls in flight
  * 
- * - Windows: tasklist /FI "PID eq {pid}"
- * - Unix: kill -0 {pid} (signal 0 checks existence without killing)
+ * Results keep the order of items. `onSettled` runs as each item completes,
+ * which is what batch functions use for progress reporting.
  * 
- * @param pid - Process ID to check
- * @returns True if process exists, false otherwise
+ * @param items - Items to process
+ * @param limit - Maximum concurrent calls (Infinity for no limit)
+ * @param fn - Async function called for each item
+ * @param onSettled - Optional callback after each item settles
+ * @returns Settled results in the order of items
+ * @throws {InvalidInputError} If limit is not a positive integer or Infinity
  * 
  * @example
  * ```typescript
- * if (await isProcessAlive(1234)) {
- *   console.log('Process 1234 is running');
- * } else {
- *   console.log('Process 1234 is not running');
- * }
+ * // At most 4 kills in flight
+ * const results = await allSettledLimit(pids, 4, pid => killByPid(pid));
  * ```
+ * 
+ * @internal
  */
-export const isProcessAlive = async (pid: number): Promise<boolean> => {
-    try {
-        if (isWindows) {
-            // Windows: use tasklist to check if PID exists
-            const out = await execText(`tasklist /FI "PID eq ${pid}" /NH`, 1000);
-            return out.includes(`${pid}`);
-        } else {
-            // Unix: kill -0 checks if process exists without sending actual signal
-            await execText(`kill -0 ${pid}`, 1000);
-            return true;
-        }
-    } catch {
-        // Any error means process doesn't exist
-        return false;
+export const allSettledLimit = async <T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+    onSettled?: (result: PromiseSettledResult<R>, index: number) => void | Promise<void>
+): Promise<PromiseSettledResult<R>[]> => {
+    if (limit !== Infinity && (!Number.isInteger(limit) || limit < 1)) {
+        throw new InvalidInputError(`Invalid concurrency: ${limit}. Must be a positive integer.`);
     }
+
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    // Each worker pulls the next item until none are left
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+            await onSettled?.(results[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
 };
 
 /**
@@ -216,6 +282,40 @@ export const parseWindowsPsJson = (jsonText: string): Array<{ ProcessId: number;
     }
 };
 
+/**
+ * Map a ps / /proc state code to a ProcessState
+ * Only the first letter matters (ps on macOS appends flags like "Ss+")
+ * 
+ * @param code - State code (e.g. "R", "S", "D", "Ss", "Z")
+ * @returns ProcessState, or undefined for unknown codes (e.g. "X", dead)
+ * 
+ * @example
+ * ```typescript
+ * parseProcessState('Ss+');  // 'sleeping'
+ * parseProcessState('T');    // 'stopped'
+ * ```
+ * 
+ * @internal
+ */
+export const parseProcessState = (code: string): ProcessState | undefined => {
+    switch (code.charAt(0)) {
+        case 'R':
+            return 'running';
+        case 'S':
+        case 'D':
+        case 'I':
+        case 'U':
+            return 'sleeping';
+        case 'T':
+        case 't':
+            return 'stopped';
+        case 'Z':
+            return 'zombie';
+        default:
+            return undefined;
+    }
+};
+
 /**
  * Parse port number from network address string
  * Handles both IPv4 and IPv6 formats
@@ -243,21 +343,56 @@ export const parsePortFromAddress = (addr: string): number | null => {
 };
 
 /**
- * Parse port number from lsof output line (Unix)
+ * Check whether a process is owned by a user given as name or uid
  * 
- * @param line - Line from lsof output
- * @returns Port number or null if not found
+ * @param info - Process to test
+ * @param user - User name, uid, or uid as a numeric string
+ * @returns True if the name or the uid matches
+ * 
+ * @internal
+ */
+export const matchesUser = (info: ProcessInfo, user: string | number): boolean =>
+    info.user === String(user) || (info.uid !== undefined && String(info.uid) === String(user));
+
+/**
+ * Validate protocol/state values of a port query
+ * 
+ * @param query - Port query options
+ * @throws {InvalidInputError} If protocol or state is not recognized
+ * 
+ * @internal
+ */
+export const validatePortQuery = (query: PortQueryOptions): void => {
+    const { protocol, state } = query;
+    if (protocol !== undefined && protocol !== 'tcp' && protocol !== 'udp') {
+        throw new InvalidInputError(`Invalid protocol: ${protocol}. Must be 'tcp' or 'udp'.`);
+    }
+    if (state !== undefined && state !== 'listen' && state !== 'established' && state !== 'any') {
+        throw new InvalidInputError(`Invalid socket state: ${state}. Must be 'listen', 'established' or 'any'.`);
+    }
+};
+
+/**
+ * Check whether a socket passes a port query's protocol/state filter
+ * State only applies to TCP; UDP sockets have no state
+ * 
+ * @param socket - Socket to test
+ * @param query - Protocol/state filter
+ * @returns True if the socket matches
  * 
  * @example
  * ```typescript
- * parsePortFromLsof('node  1234  user  TCP *:3000 (LISTEN)');  // 3000
+ * matchesPortQuery({ pid: 1, port: 5432, protocol: 'tcp', state: 'LISTEN' }, { state: 'listen' });      // true
+ * matchesPortQuery({ pid: 2, port: 5432, protocol: 'tcp', state: 'ESTABLISHED' }, { state: 'listen' }); // false
  * ```
  * 
  * @internal
  */
-export const parsePortFromLsof = (line: string): number | null => {
-    // Look for pattern like ":3000->" or ":3000 (LISTEN)"
-    const match = line.match(/:(\d+)(?:->|\s)/);
-    return match ? Number(match[1]) : null;
-};
+export const matchesPortQuery = (socket: SocketInfo, query: PortQueryOptions): boolean => {
+    const { protocol, state = 'any' } = query;
+
+    if (protocol && socket.protocol !== protocol) return false;
+    if (state === 'any' || socket.protocol !== 'tcp') return true;
 
+    return socket.state === (state === 'listen' ? 'LISTEN' : 'ESTABLISHED');
+};
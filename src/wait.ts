@@ -0,0 +1,114 @@
+/**
+ * Polling helpers that wait for a port to be released or bound
+ * @module wait
+ */
+
+import { InvalidInputError, TimeoutError } from './errors';
+import { log, withLogContext } from './logger';
+import { queryPortSockets } from './lookup';
+import type { SocketInfo, WaitForPortOptions } from './types';
+import { matchesPortQuery, sleep, validatePortQuery } from './utils';
+
+/**
+ * Default maximum wait time: 5 seconds
+ */
+const DEFAULT_WAIT_TIMEOUT_MS = 5000;
+
+/**
+ * Default delay between lookups: 100ms
+ */
+const DEFAULT_WAIT_INTERVAL_MS = 100;
+
+/**
+ * Poll the port until `done` accepts the owning PIDs
+ * Every lookup bypasses the cache so a just-killed process isn't reported again
+ * 
+ * @internal
+ */
+const pollPort = async (
+    port: number,
+    options: WaitForPortOptions,
+    done: (pids: number[]) => boolean,
+    describe: string
+): Promise<number[]> => {
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new InvalidInputError(`Invalid port number: ${port}. Must be between 1 and 65535.`);
+    }
+    validatePortQuery(options);
+
+    const {
+        timeoutMs = DEFAULT_WAIT_TIMEOUT_MS,
+        intervalMs = DEFAULT_WAIT_INTERVAL_MS,
+        abortSignal,
+    } = options;
+
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+        // Each lookup only gets the time left, so a slow one can't overrun the wait
+        // (at least 1 ms: a timeout of 0 would mean no limit)
+        let sockets: SocketInfo[];
+        try {
+            sockets = await queryPortSockets(port, Math.max(1, deadline - Date.now()), abortSignal);
+        } catch (error) {
+            if (error instanceof TimeoutError) {
+                throw new TimeoutError(`Port ${port} was not ${describe} after ${timeoutMs} ms`);
+            }
+            throw error;
+        }
+        const pids = [...new Set(sockets.filter(s => matchesPortQuery(s, options)).map(s => s.pid))];
+
+        if (done(pids)) {
+            log.debug(`Port ${port} is ${describe}`, { operation: 'waitForPort', port });
+            return pids;
+        }
+
+        if (Date.now() + intervalMs > deadline) {
+            throw new TimeoutError(`Port ${port} was not ${describe} after ${timeoutMs} ms`);
+        }
+        await sleep(intervalMs, abortSignal);
+    }
+};
+
+/**
+ * Wait until no process holds the given port
+ * 
+ * Useful right after a kill: the socket is often still bound for a moment,
+ * and restarting a server immediately fails with EADDRINUSE.
+ * 
+ * @param port - Port number (1-65535)
+ * @param options - Timeout, poll interval, abort signal and protocol/state filter
+ * @throws {TimeoutError} If the port is still in use when the timeout expires
+ * @throws {InvalidInputError} If port number or query is invalid
+ * @throws {AbortError} If the signal is aborted
+ * 
+ * @example
+ * ```typescript
+ * await killByPort(3000);
+ * await waitForPortFree(3000, { timeoutMs: 3000 });
+ * startServer(); // no EADDRINUSE
+ * ```
+ */
+export const waitForPortFree = async (port: number, options: WaitForPortOptions = {}): Promise<void> => {
+    await withLogContext('waitForPortFree', false, () => pollPort(port, options, pids => pids.length === 0, 'free'));
+};
+
+/**
+ * Wait until some process holds the given port
+ * 
+ * @param port - Port number (1-65535)
+ * @param options - Timeout, poll interval, abort signal and protocol/state filter
+ * @returns PIDs bound to the port once it is in use
+ * @throws {TimeoutError} If the port is still free when the timeout expires
+ * @throws {InvalidInputError} If port number or query is invalid
+ * @throws {AbortError} If the signal is aborted
+ * 
+ * @example
+ * ```typescript
+ * startServer();
+ * const [pid] = await waitForPortInUse(3000, { state: 'listen', timeoutMs: 10000 });
+ * console.log(`Server is up with PID ${pid}`);
+ * ```
+ */
+export const waitForPortInUse = (port: number, options: WaitForPortOptions = {}): Promise<number[]> =>
+    withLogContext('waitForPortInUse', false, () => pollPort(port, options, pids => pids.length > 0, 'in use'));
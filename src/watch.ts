@@ -0,0 +1,206 @@
+/**
+ * Watchers that report process exits and port bind/release events
+ * @module watch
+ */
+
+import { EventEmitter } from 'events';
+import { getBackend } from './backend';
+import { AbortError, InvalidInputError } from './errors';
+import { log } from './logger';
+import { isOriginalAlive, queryPortSockets } from './lookup';
+import type { WatchEvent, Watcher, WatchOptions, WatchPortOptions } from './types';
+import { matchesPortQuery, sleep, validatePortQuery } from './utils';
+
+/**
+ * Default delay between lookups: 500ms
+ */
+const DEFAULT_WATCH_INTERVAL_MS = 500;
+
+/**
+ * Build a watcher around a poll function
+ * 
+ * `poll` runs every intervalMs until the watcher is closed and returns the
+ * events to emit; calling `finish` closes the watcher once they are
+ * delivered. Each event goes to its EventEmitter listeners and to the async
+ * iterator queue. A failed poll emits `error` (or logs a warning when nobody
+ * listens) and polling goes on.
+ * 
+ * @internal
+ */
+const createWatcher = <E extends WatchEvent>(
+    operation: string,
+    options: WatchOptions,
+    poll: (abortSignal: AbortSignal, finish: () => void) => Promise<E[]>
+): Watcher<E> => {
+    const { intervalMs = DEFAULT_WATCH_INTERVAL_MS, abortSignal } = options;
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+        throw new InvalidInputError(`Invalid intervalMs: ${intervalMs}. Must be a positive number.`);
+    }
+
+    const emitter = new EventEmitter();
+    const stop = new AbortController();
+    // Only buffered once iterated, so listener-only watchers keep nothing
+    let queue: E[] | undefined;
+    const waiting: Array<(result: IteratorResult<E>) => void> = [];
+
+    const deliver = (event: E): void => {
+        const next = waiting.shift();
+        if (next) next({ value: event, done: false });
+        else queue?.push(event);
+        emitter.emit(event.type, event);
+    };
+
+    const close = (): void => {
+        if (stop.signal.aborted) return;
+        stop.abort();
+        abortSignal?.removeEventListener('abort', close);
+        for (const next of waiting.splice(0)) next({ value: undefined, done: true });
+        log.debug('Watcher closed', { operation });
+        emitter.emit('close');
+    };
+
+    const watcher = Object.defineProperties(emitter, {
+        closed: { get: () => stop.signal.aborted },
+    }) as Watcher<E>;
+    Object.assign(watcher, {
+        close,
+        [Symbol.asyncIterator]: (): AsyncIterator<E> => {
+            queue ??= [];
+            return {
+                next: () => {
+                    const event = queue?.shift();
+                    if (event) return Promise.resolve({ value: event, done: false });
+                    if (stop.signal.aborted) return Promise.resolve({ value: undefined, done: true });
+                    return new Promise<IteratorResult<E>>(resolve => waiting.push(resolve));
+                },
+                return: async () => {
+                    close();
+                    return { value: undefined, done: true };
+                },
+            };
+        },
+    });
+
+    if (abortSignal?.aborted) {
+        // Closed before the caller can attach listeners, so emit close later
+        queueMicrotask(close);
+        return watcher;
+    }
+    abortSignal?.addEventListener('abort', close, { once: true });
+
+    let finished = false;
+    const finish = (): void => {
+        finished = true;
+    };
+
+    (async () => {
+        while (!stop.signal.aborted) {
+            try {
+                for (const event of await poll(stop.signal, finish)) {
+                    if (stop.signal.aborted) break;
+                    deliver(event);
+                }
+                if (finished) close();
+            } catch (error) {
+                if (error instanceof AbortError) break;
+                if (emitter.listenerCount('error') > 0) emitter.emit('error', error);
+                else log.warn(`Watch lookup failed: ${(error as Error).message}`, { operation });
+            }
+            await sleep(intervalMs, stop.signal).catch(() => undefined);
+        }
+    })();
+
+    return watcher;
+};
+
+/**
+ * Watch a process and get notified when it exits
+ * 
+ * Emits a single `exit` event, then closes itself. The start time read when
+ * the watch begins guards against PID reuse: a new process that takes over
+ * the PID counts as an exit.
+ * 
+ * @param pid - Process ID to watch
+ * @param options - Poll interval and abort signal
+ * @returns Watcher (EventEmitter and async iterator)
+ * @throws {InvalidInputError} If PID or intervalMs is invalid
+ * 
+ * @example
+ * ```typescript
+ * const watcher = watchProcess(1234, { intervalMs: 250 });
+ * watcher.on('exit', ({ pid }) => console.log(`${pid} exited`));
+ * 
+ * // Or with for await
+ * for await (const event of watchProcess(1234)) {
+ *   console.log(event.type); // 'exit'
+ * }
+ * ```
+ */
+export const watchProcess = (pid: number, options: WatchOptions = {}): Watcher<Extract<WatchEvent, { type: 'exit' }>> => {
+    if (!Number.isInteger(pid) || pid <= 0) {
+        throw new InvalidInputError(`Invalid PID: ${pid}. Must be a positive integer.`);
+    }
+
+    let startTime: Promise<number | undefined> | undefined;
+
+    return createWatcher('watchProcess', options, async (abortSignal, finish) => {
+        startTime ??= getBackend().getProcess(pid, undefined, abortSignal)
+            .then(info => info?.startTime, () => undefined);
+
+        if (await isOriginalAlive(pid, await startTime, abortSignal)) return [];
+
+        // Nothing left to watch once the process is gone
+        finish();
+        return [{ type: 'exit', pid }];
+    });
+};
+
+/**
+ * Watch a port and get notified when processes bind or release it
+ * 
+ * Emits `bound` for every PID that starts holding the port (including the
+ * ones already bound on the first lookup) and `released` when no PID holds
+ * it anymore. Lookups bypass the cache.
+ * 
+ * @param port - Port number (1-65535)
+ * @param options - Poll interval, abort signal and protocol/state filter (default: any)
+ * @returns Watcher (EventEmitter and async iterator)
+ * @throws {InvalidInputError} If port, query or intervalMs is invalid
+ * 
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const watcher = watchPort(3000, { state: 'listen', abortSignal: controller.signal });
+ * 
+ * watcher.on('bound', ({ pid }) => console.log(`Dev server up (PID ${pid})`));
+ * watcher.on('released', () => console.log('Dev server down'));
+ * 
+ * // Later
+ * controller.abort(); // or watcher.close()
+ * ```
+ */
+export const watchPort = (
+    port: number,
+    options: WatchPortOptions = {}
+): Watcher<Extract<WatchEvent, { type: 'bound' | 'released' }>> => {
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new InvalidInputError(`Invalid port number: ${port}. Must be between 1 and 65535.`);
+    }
+    validatePortQuery(options);
+
+    let owners = new Set<number>();
+
+    return createWatcher('watchPort', options, async (abortSignal) => {
+        const sockets = await queryPortSockets(port, undefined, abortSignal);
+        const current = new Set(sockets.filter(s => matchesPortQuery(s, options)).map(s => s.pid));
+
+        const events: Array<Extract<WatchEvent, { type: 'bound' | 'released' }>> = [];
+        for (const pid of current) {
+            if (!owners.has(pid)) events.push({ type: 'bound', port, pid });
+        }
+        if (owners.size > 0 && current.size === 0) events.push({ type: 'released', port });
+
+        owners = current;
+        return events;
+    });
+};
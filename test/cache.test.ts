@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearCache, configureCache, getCached, getCacheStats, invalidateCache, invalidateProcess } from '../src/cache';
+import { AbortError, InvalidInputError } from '../src';
+
+const DEFAULTS = { ttlMs: 1000, maxEntries: 100, enabled: true };
+
+beforeEach(() => {
+    configureCache(DEFAULTS);
+    clearCache();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    configureCache(DEFAULTS);
+    clearCache();
+});
+
+describe('cache TTL', () => {
+    it('serves hits within the configured TTL and refetches after it', async () => {
+        vi.useFakeTimers();
+        configureCache({ ttlMs: 5000 });
+        const fetcher = vi.fn(async () => [1]);
+
+        await getCached('k', fetcher);
+        vi.advanceTimersByTime(4000);
+        await getCached('k', fetcher);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(1500);
+        await getCached('k', fetcher);
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('always fetches when disabled', async () => {
+        configureCache({ enabled: false });
+        const fetcher = vi.fn(async () => [1]);
+
+        await getCached('k', fetcher);
+        await getCached('k', fetcher);
+
+        expect(fetcher).toHaveBeenCalledTimes(2);
+        expect(getCacheStats().size).toBe(0);
+    });
+
+    it('rejects invalid options', () => {
+        expect(() => configureCache({ ttlMs: -1 })).toThrow(InvalidInputError);
+        expect(() => configureCache({ maxEntries: 0 })).toThrow(InvalidInputError);
+    });
+});
+
+describe('cache size', () => {
+    it('evicts the least recently used entries beyond maxEntries', async () => {
+        configureCache({ maxEntries: 2 });
+        await getCached('a', async () => 'a');
+        await getCached('b', async () => 'b');
+        await getCached('a', async () => 'stale');   // a is now most recently used
+        await getCached('c', async () => 'c');
+
+        const fetchB = vi.fn(async () => 'b2');
+        expect(await getCached('a', async () => 'a2')).toBe('a');
+        expect(await getCached('b', fetchB)).toBe('b2');
+        expect(fetchB).toHaveBeenCalled();
+    });
+});
+
+describe('in-flight fetches', () => {
+    it('shares one fetch between concurrent misses', async () => {
+        const before = getCacheStats().deduplicated;
+        const fetcher = vi.fn(() => new Promise<number[]>(resolve => setTimeout(() => resolve([1]), 10)));
+
+        const results = await Promise.all([getCached('k', fetcher), getCached('k', fetcher), getCached('k', fetcher)]);
+
+        expect(results).toEqual([[1], [1], [1]]);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(getCacheStats().deduplicated - before).toBe(2);
+    });
+
+    it('retries with its own fetcher when the shared fetch was aborted', async () => {
+        const aborted = getCached('k', () => Promise.reject(new AbortError()));
+        const joined = getCached('k', async () => [2]);
+
+        await expect(aborted).rejects.toBeInstanceOf(AbortError);
+        expect(await joined).toEqual([2]);
+    });
+
+    it('does not cache errors', async () => {
+        await expect(getCached('k', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+        expect(await getCached('k', async () => [3])).toEqual([3]);
+    });
+});
+
+describe('invalidation', () => {
+    it('drops every entry that mentions a signalled PID', async () => {
+        await getCached('name:node:false', async () => [10, 11]);
+        await getCached('sockets', async () => [{ pid: 11, port: 3000 }]);
+        await getCached('name:vite:false', async () => [12]);
+
+        invalidateProcess(11);
+
+        expect(await getCached('name:node:false', async () => [10])).toEqual([10]);
+        expect(await getCached('sockets', async () => [])).toEqual([]);
+        expect(await getCached('name:vite:false', async () => [99])).toEqual([12]);
+    });
+
+    it('discards a fetch that was running when the PID was signalled', async () => {
+        let release!: (pids: number[]) => void;
+        const pending = getCached('k', () => new Promise<number[]>(resolve => { release = resolve; }));
+
+        invalidateProcess(10);
+        release([10]);
+
+        expect(await pending).toEqual([10]);
+        expect(await getCached('k', async () => [])).toEqual([]);
+    });
+
+    it('removes a single key', async () => {
+        await getCached('k', async () => 1);
+
+        expect(invalidateCache('k')).toBe(true);
+        expect(invalidateCache('k')).toBe(false);
+    });
+});
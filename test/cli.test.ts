@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EXIT_CODES, run } from '../src/cli';
+import { createMemoryBackend, setBackend, setDebug, setLogger } from '../src';
+import type { MemoryBackend } from '../src';
+
+const ROOT = 900001;
+const CHILD = 900002;
+
+let backend: MemoryBackend;
+let stdout: string[];
+
+beforeEach(() => {
+    backend = createMemoryBackend({
+        processes: [
+            { pid: ROOT, name: 'node', command: 'node server.js' },
+            { pid: CHILD, name: 'node', command: 'node worker.js' },
+        ],
+        sockets: [{ pid: ROOT, port: 3000, protocol: 'tcp', state: 'LISTEN' }],
+    });
+    setBackend(backend);
+    stdout = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => { stdout.push(line); });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+});
+
+afterEach(() => {
+    setDebug(false);
+    setLogger({ sink: null, level: 'silent' });
+    setBackend(null);
+    setLogger({ level: 'info' });
+    vi.restoreAllMocks();
+});
+
+describe('kproc exit codes', () => {
+    it('exits 0 when every process is killed', async () => {
+        expect(await run(['pid', String(ROOT)])).toBe(EXIT_CODES.SUCCESS);
+        expect(backend.signals).toEqual([{ pid: ROOT, signal: 'SIGTERM' }]);
+    });
+
+    it('exits 3 for a PID that does not exist', async () => {
+        expect(await run(['pid', '999999'])).toBe(EXIT_CODES.NOT_FOUND);
+        expect(stdout.join('\n')).not.toContain('killed');
+    });
+
+    it('exits 2 when only some of the PIDs exist', async () => {
+        expect(await run(['pid', String(ROOT), '999999'])).toBe(EXIT_CODES.PARTIAL);
+        expect(stdout.join('\n')).toContain('PID 999999 failed');
+    });
+
+    it('exits 1 when every kill fails', async () => {
+        setBackend(createMemoryBackend({
+            processes: [{ pid: ROOT, name: 'node' }],
+            onSignal: () => { throw new Error('Operation not permitted'); },
+        }));
+        expect(await run(['pid', String(ROOT)])).toBe(EXIT_CODES.FAILURE);
+    });
+
+    it('exits 3 when nothing matches a port or pattern', async () => {
+        expect(await run(['port', '4000'])).toBe(EXIT_CODES.NOT_FOUND);
+        expect(await run(['name', 'python'])).toBe(EXIT_CODES.NOT_FOUND);
+    });
+
+    it('exits 64 on usage errors', async () => {
+        expect(await run(['explode', '1'])).toBe(EXIT_CODES.USAGE);
+        expect(await run(['pid'])).toBe(EXIT_CODES.USAGE);
+        expect(await run(['pid', 'abc'])).toBe(EXIT_CODES.USAGE);
+        expect(await run(['--no-such-flag'])).toBe(EXIT_CODES.USAGE);
+    });
+});
+
+describe('kproc output', () => {
+    it('prints only parseable JSON on stdout with --json', async () => {
+        expect(await run(['port', '3000', '--dry-run', '--json', '--debug'])).toBe(EXIT_CODES.SUCCESS);
+        expect(JSON.parse(stdout.join('\n'))).toEqual([expect.objectContaining({ pid: ROOT, success: true, port: 3000 })]);
+        expect(backend.signals).toEqual([]);
+    });
+});
+
+describe('kproc --version', () => {
+    it('prints the package.json version', async () => {
+        const { version } = await import('../package.json');
+        expect(await run(['--version'])).toBe(EXIT_CODES.SUCCESS);
+        expect(stdout).toEqual([version]);
+    });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildProcessTree, createMemoryBackend, getProcessTree, ProcessNotFoundError, setBackend, setLogger } from '../src';
+import type { ProcessInfo } from '../src';
+import { collectDescendantPids, findDescendantPids } from '../src/core';
+
+const ROOT = 900001;
+const CHILD = 900002;
+const GRANDCHILD = 900003;
+const SIBLING = 900004;
+
+const processes: ProcessInfo[] = [
+    { pid: 1, name: 'init', parentPid: 0 },
+    { pid: ROOT, name: 'supervisor', parentPid: 1 },
+    { pid: CHILD, name: 'worker', parentPid: ROOT },
+    { pid: SIBLING, name: 'worker', parentPid: ROOT },
+    { pid: GRANDCHILD, name: 'helper', parentPid: CHILD },
+];
+
+beforeEach(() => {
+    setLogger({ level: 'silent' });
+});
+
+afterEach(() => {
+    setBackend(null);
+    setLogger({ level: 'info' });
+});
+
+describe('collectDescendantPids', () => {
+    it('walks the snapshot breadth-first, without the root', () => {
+        expect(collectDescendantPids(processes, ROOT)).toEqual([CHILD, SIBLING, GRANDCHILD]);
+        expect(collectDescendantPids(processes, GRANDCHILD)).toEqual([]);
+    });
+
+    it('stops on parent cycles', () => {
+        const cyclic: ProcessInfo[] = [
+            { pid: ROOT, name: 'a', parentPid: CHILD },
+            { pid: CHILD, name: 'b', parentPid: ROOT },
+        ];
+
+        expect(collectDescendantPids(cyclic, ROOT)).toEqual([CHILD]);
+    });
+});
+
+describe('buildProcessTree', () => {
+    it('nests children and makes orphans and self-parented processes roots', () => {
+        const roots = buildProcessTree([
+            ...processes,
+            { pid: 900010, name: 'orphan', parentPid: 123456 },
+            { pid: 900011, name: 'self', parentPid: 900011 },
+        ]);
+
+        expect(roots.map(r => r.pid)).toEqual([1, 900010, 900011]);
+        const root = roots[0].children[0];
+        expect(root.pid).toBe(ROOT);
+        expect(root.children.map(c => c.pid)).toEqual([CHILD, SIBLING]);
+        expect(root.children[0].children.map(c => c.info.name)).toEqual(['helper']);
+    });
+});
+
+describe('snapshot lookups', () => {
+    it('reads the process table once per call', async () => {
+        const backend = createMemoryBackend({ processes });
+        let listings = 0;
+        const listProcesses = backend.listProcesses.bind(backend);
+        backend.listProcesses = (...args) => {
+            listings++;
+            return listProcesses(...args);
+        };
+        setBackend(backend);
+
+        expect(await findDescendantPids(ROOT)).toEqual([CHILD, SIBLING, GRANDCHILD]);
+        expect(listings).toBe(1);
+    });
+
+    it('returns the subtree of a PID', async () => {
+        setBackend(createMemoryBackend({ processes }));
+
+        const tree = await getProcessTree(CHILD);
+
+        expect(tree).toMatchObject({ pid: CHILD, children: [{ pid: GRANDCHILD, children: [] }] });
+        await expect(getProcessTree(900099)).rejects.toBeInstanceOf(ProcessNotFoundError);
+    });
+
+    it('returns no descendants when the listing fails', async () => {
+        const backend = createMemoryBackend({ processes });
+        backend.listProcesses = () => Promise.reject(new Error('ps failed'));
+        setBackend(backend);
+
+        expect(await findDescendantPids(ROOT)).toEqual([]);
+    });
+});
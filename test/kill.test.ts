@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    AbortError,
+    createMemoryBackend,
+    findPidsByName,
+    InvalidInputError,
+    killByCwd,
+    killByName,
+    killByPid,
+    killByPids,
+    killByUser,
+    ProcessNotFoundError,
+    setBackend,
+    setLogger,
+    setProtected,
+} from '../src';
+import type { MemoryBackend, MemoryBackendOptions } from '../src';
+
+// High PIDs so no test process collides with the runner or its ancestors
+const ROOT = 900001;
+const CHILD = 900002;
+const GRANDCHILD = 900003;
+
+let backend: MemoryBackend;
+
+const use = (options: MemoryBackendOptions): MemoryBackend => {
+    backend = createMemoryBackend(options);
+    setBackend(backend);
+    return backend;
+};
+
+const signalsOf = (pid: number) => backend.signals.filter(s => s.pid === pid).map(s => s.signal);
+
+beforeEach(() => {
+    setLogger({ level: 'silent' });
+    setProtected({});
+});
+
+afterEach(() => {
+    setBackend(null);
+    setProtected({});
+    setLogger({ level: 'info' });
+});
+
+describe('signal ladder', () => {
+    it('escalates to SIGKILL and reports the step that ended the process', async () => {
+        use({
+            processes: [{ pid: ROOT, name: 'stubborn' }],
+            onSignal: (_pid, signal) => signal === 'SIGKILL',
+        });
+
+        const result = await killByPid(ROOT, { forceAfterTimeout: true, escalationDelayMs: 50 });
+
+        expect(result).toMatchObject({ success: true, signal: 'SIGKILL', escalated: true, sequenceStep: 1 });
+        expect(result.exitedAfterMs).toBeGreaterThanOrEqual(0);
+        expect(signalsOf(ROOT)).toEqual(['SIGTERM', 'SIGKILL']);
+    });
+
+    it('stops at the first step the process exits on', async () => {
+        use({
+            processes: [{ pid: ROOT, name: 'graceful' }],
+            onSignal: (_pid, signal) => signal !== 'SIGINT',
+        });
+
+        const result = await killByPid(ROOT, {
+            signalSequence: [
+                { signal: 'SIGINT', waitMs: 20 },
+                { signal: 'SIGTERM', waitMs: 1000 },
+                { signal: 'SIGKILL', waitMs: 0 },
+            ],
+        });
+
+        expect(result).toMatchObject({ success: true, signal: 'SIGTERM', sequenceStep: 1, escalated: true });
+        expect(signalsOf(ROOT)).toEqual(['SIGINT', 'SIGTERM']);
+    });
+
+    it('still observes the exit after a last step with waitMs 0', async () => {
+        let killed = false;
+        use({
+            processes: [{ pid: ROOT, name: 'slow-exit' }],
+            // Dies some time after SIGKILL, like a process in uninterruptible sleep
+            onSignal: (pid, signal) => {
+                if (signal === 'SIGKILL' && !killed) {
+                    killed = true;
+                    setTimeout(() => backend.removeProcess(pid), 50);
+                }
+                return false;
+            },
+        });
+
+        const result = await killByPid(ROOT, { forceAfterTimeout: true, escalationDelayMs: 20, verifyTimeoutMs: 1000 });
+
+        expect(result).toMatchObject({ success: true, signal: 'SIGKILL', sequenceStep: 1 });
+        expect(result.exitedAfterMs).toBeGreaterThan(0);
+    });
+});
+
+describe('tree freeze', () => {
+    it('stops the whole tree before signalling it, children first', async () => {
+        use({
+            processes: [
+                { pid: ROOT, name: 'supervisor' },
+                { pid: CHILD, name: 'worker', parentPid: ROOT },
+                { pid: GRANDCHILD, name: 'helper', parentPid: CHILD },
+            ],
+        });
+
+        const result = await killByPid(ROOT, { tree: true, treeMode: 'freeze' });
+
+        expect(result.success).toBe(true);
+        expect(backend.signals.slice(0, 3)).toEqual([
+            { pid: ROOT, signal: 'SIGSTOP' },
+            { pid: CHILD, signal: 'SIGSTOP' },
+            { pid: GRANDCHILD, signal: 'SIGSTOP' },
+        ]);
+        expect(backend.signals.slice(3, 6)).toEqual([
+            { pid: GRANDCHILD, signal: 'SIGTERM' },
+            { pid: CHILD, signal: 'SIGTERM' },
+            { pid: ROOT, signal: 'SIGTERM' },
+        ]);
+        expect(await backend.isAlive(CHILD)).toBe(false);
+    });
+
+    it('resumes frozen processes that survived the signal', async () => {
+        use({
+            processes: [
+                { pid: ROOT, name: 'supervisor' },
+                { pid: CHILD, name: 'worker', parentPid: ROOT },
+            ],
+            onSignal: pid => pid !== CHILD,
+        });
+
+        await killByPid(ROOT, { tree: true, treeMode: 'freeze' });
+
+        expect(signalsOf(CHILD)).toEqual(['SIGSTOP', 'SIGTERM', 'SIGCONT']);
+    });
+});
+
+describe('protection', () => {
+    it('refuses PID 1 and the current process', async () => {
+        use({ processes: [{ pid: 1, name: 'init' }, { pid: process.pid, name: 'node' }] });
+
+        expect(await killByPid(1)).toMatchObject({ success: false, skipped: true });
+        expect(await killByPid(process.pid)).toMatchObject({ success: false, skipped: true });
+        expect(backend.signals).toEqual([]);
+    });
+
+    it('skips the configured protected list unless force is set', async () => {
+        use({ processes: [{ pid: ROOT, name: 'postgres' }, { pid: CHILD, name: 'node' }] });
+        setProtected({ names: ['postgres'] });
+
+        expect(await killByPid(ROOT)).toMatchObject({ success: false, skipped: true });
+        expect(signalsOf(ROOT)).toEqual([]);
+
+        expect(await killByPid(ROOT, { force: true })).toMatchObject({ success: true });
+    });
+
+    it('leaves the current process out of selection-based kills', async () => {
+        use({ processes: [{ pid: process.pid, name: 'sleeper' }, { pid: ROOT, name: 'sleeper' }] });
+
+        const results = await killByName('sleeper');
+
+        expect(results.map(r => r.pid)).toEqual([ROOT]);
+        expect(results[0]).toMatchObject({ success: true, pattern: 'sleeper' });
+    });
+});
+
+describe('abort', () => {
+    it('rejects before sending anything when already aborted', async () => {
+        use({ processes: [{ pid: ROOT, name: 'node' }] });
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(killByPid(ROOT, { abortSignal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+        expect(backend.signals).toEqual([]);
+    });
+
+    it('stops a ladder mid-wait and reports the signals already delivered', async () => {
+        use({
+            processes: [{ pid: ROOT, name: 'quick' }, { pid: CHILD, name: 'stubborn' }],
+            onSignal: pid => pid !== CHILD,
+        });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        const error = await killByPids([ROOT, CHILD], {
+            forceAfterTimeout: true,
+            escalationDelayMs: 5000,
+            abortSignal: controller.signal,
+        }).catch(e => e);
+
+        expect(error).toBeInstanceOf(AbortError);
+        const results = (error as AbortError).results;
+        expect(results.map(r => r.pid).sort()).toEqual([ROOT, CHILD]);
+        // The stubborn process got SIGTERM but was never seen exiting nor escalated
+        expect(results.find(r => r.pid === CHILD)).toMatchObject({ signal: 'SIGTERM', escalated: false });
+        expect(results.find(r => r.pid === CHILD)?.sequenceStep).toBeUndefined();
+        expect(signalsOf(CHILD)).toEqual(['SIGTERM']);
+    });
+});
+
+describe('cache invalidation', () => {
+    it('forgets a killed PID in cached lookups', async () => {
+        use({ processes: [{ pid: ROOT, name: 'sleeper' }] });
+
+        expect(await findPidsByName('sleeper')).toEqual([ROOT]);
+        await killByPid(ROOT);
+
+        expect(await findPidsByName('sleeper')).toEqual([]);
+    });
+
+    it('keeps serving cached lookups when nothing was signalled', async () => {
+        use({ processes: [{ pid: ROOT, name: 'sleeper' }] });
+
+        expect(await findPidsByName('sleeper')).toEqual([ROOT]);
+        backend.removeProcess(ROOT);
+
+        expect(await findPidsByName('sleeper')).toEqual([ROOT]);
+    });
+});
+
+describe('selection tags', () => {
+    it('tags killByCwd results with the directory and completes them once', async () => {
+        use({ processes: [{ pid: ROOT, name: 'dev-server', cwd: '/srv/app' }, { pid: CHILD, name: 'db', cwd: '/var/lib' }] });
+        const completed: number[] = [];
+
+        const results = await killByCwd('/srv/app', { onComplete: r => { completed.push(r.pid); } });
+
+        expect(results).toEqual([expect.objectContaining({ pid: ROOT, success: true, directory: '/srv/app' })]);
+        expect(completed).toEqual([ROOT]);
+    });
+});
+
+describe('kill by user', () => {
+    const processes = [
+        { pid: ROOT, name: 'node', command: 'node build.js', user: 'ci', uid: 1001 },
+        { pid: CHILD, name: 'vitest', command: 'node vitest run', user: 'ci', uid: 1001 },
+        { pid: GRANDCHILD, name: 'node', command: 'node app.js', user: 'web', uid: 1002 },
+    ];
+
+    it('kills the user\'s processes and tags each result with the user', async () => {
+        use({ processes });
+
+        const results = await killByUser('ci');
+
+        expect(results.map(r => r.pid).sort()).toEqual([ROOT, CHILD]);
+        expect(results.every(r => r.success && r.user === 'ci' && r.pattern === undefined)).toBe(true);
+        expect(signalsOf(GRANDCHILD)).toEqual([]);
+    });
+
+    it('narrows by pattern and accepts a uid', async () => {
+        use({ processes });
+
+        const results = await killByUser(1001, { pattern: 'vitest' });
+
+        expect(results).toEqual([expect.objectContaining({ pid: CHILD, user: 1001, pattern: 'vitest' })]);
+    });
+
+    it('refuses root unless allowRoot is set', async () => {
+        use({ processes: [{ pid: ROOT, name: 'sshd', user: 'toor', uid: 0 }] });
+
+        await expect(killByUser('root')).rejects.toBeInstanceOf(InvalidInputError);
+        await expect(killByUser(0)).rejects.toBeInstanceOf(InvalidInputError);
+        // A name mapping to uid 0 is refused too
+        await expect(killByUser('toor')).rejects.toBeInstanceOf(InvalidInputError);
+        expect(backend.signals).toEqual([]);
+
+        expect(await killByUser('toor', { allowRoot: true })).toEqual([expect.objectContaining({ pid: ROOT, success: true })]);
+    });
+
+    it('throws ProcessNotFoundError when the user owns nothing', async () => {
+        use({ processes });
+
+        await expect(killByUser('nobody')).rejects.toBeInstanceOf(ProcessNotFoundError);
+    });
+});
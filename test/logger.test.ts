@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getOperationId, log, setLogger, withLogContext } from '../src/logger';
+import { InvalidInputError } from '../src';
+import type { LoggerLike, LogRecord } from '../src';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    setLogger({ sink: null, level: 'info', format: 'text' });
+});
+
+/** Records calls the way pino receives them: (fields, message) */
+const pinoLike = () => {
+    const calls: Array<[string, unknown, unknown]> = [];
+    const method = (level: string) => (fields: unknown, message: unknown) => { calls.push([level, fields, message]); };
+    const logger: LoggerLike = { debug: method('debug'), info: method('info'), warn: method('warn'), error: method('error') };
+    return { logger, calls };
+};
+
+/** Records calls the way winston receives them: log(level, message, meta) */
+const winstonLike = () => {
+    const calls: Array<[string, unknown, unknown]> = [];
+    const leveled = () => () => { throw new Error('leveled methods take the message first'); };
+    const logger: LoggerLike = {
+        debug: leveled(),
+        info: leveled(),
+        warn: leveled(),
+        error: leveled(),
+        log: (level, message, meta) => { calls.push([level, message, meta]); },
+    };
+    return { logger, calls };
+};
+
+describe('object sinks', () => {
+    it('calls pino-style loggers with fields first', () => {
+        const { logger, calls } = pinoLike();
+        setLogger({ sink: logger });
+
+        log.warn('Port busy', { port: 3000 });
+
+        expect(calls).toEqual([['warn', expect.objectContaining({ port: 3000 }), 'Port busy']]);
+    });
+
+    it('calls winston-style loggers through log(level, message, meta)', () => {
+        const { logger, calls } = winstonLike();
+        setLogger({ sink: logger });
+
+        log.error('Kill failed', { pid: 42 });
+
+        expect(calls).toEqual([['error', 'Kill failed', expect.objectContaining({ pid: 42 })]]);
+    });
+});
+
+describe('function sinks and levels', () => {
+    it('passes structured records and filters by level', () => {
+        const records: LogRecord[] = [];
+        setLogger({ sink: r => { records.push(r); }, level: 'warn' });
+
+        log.info('hidden');
+        log.warn('shown', { pid: 7 });
+
+        expect(records).toEqual([expect.objectContaining({ level: 'warn', message: 'shown', pid: 7, time: expect.any(Number) })]);
+    });
+
+    it('never lets a failing sink break the caller', () => {
+        setLogger({ sink: () => { throw new Error('disk full'); } });
+
+        expect(() => log.error('still fine')).not.toThrow();
+    });
+
+    it('writes nothing at level silent', () => {
+        const records: LogRecord[] = [];
+        setLogger({ sink: r => { records.push(r); }, level: 'silent' });
+
+        log.error('dropped');
+
+        expect(records).toEqual([]);
+    });
+
+    it('prints JSON lines on the console', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        setLogger({ sink: null, format: 'json' });
+
+        log.warn('Port busy', { port: 3000 });
+
+        expect(JSON.parse(warn.mock.calls[0][0])).toMatchObject({ level: 'warn', message: 'Port busy', port: 3000 });
+    });
+
+    it('rejects unknown levels and formats', () => {
+        expect(() => setLogger({ level: 'loud' as never })).toThrow(InvalidInputError);
+        expect(() => setLogger({ format: 'xml' as never })).toThrow(InvalidInputError);
+    });
+});
+
+describe('operation context', () => {
+    it('shares one operation id and enables debug only inside the call', async () => {
+        const records: LogRecord[] = [];
+        setLogger({ sink: r => { records.push(r); } });
+
+        let id: string | undefined;
+        await withLogContext('killByPort', true, async () => {
+            id = getOperationId();
+            await withLogContext('killByPid', false, async () => log.debug('nested'));
+        });
+        log.debug('outside');
+
+        expect(records).toEqual([expect.objectContaining({ message: 'nested', operation: 'killByPort', operationId: id })]);
+        expect(getOperationId()).toBeUndefined();
+    });
+});
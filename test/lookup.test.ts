@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    createMemoryBackend,
+    findFileHolders,
+    findPidsByCwd,
+    findPidsByFile,
+    findPidsByPort,
+    getProcessInfo,
+    getSocketTable,
+    InvalidInputError,
+    killByFile,
+    killByPort,
+    killByPortRange,
+    killByPorts,
+    ProcessNotFoundError,
+    setBackend,
+    setLogger,
+} from '../src';
+import type { MemoryBackend, SocketInfo } from '../src';
+import { matchesPortQuery, validatePortQuery } from '../src/utils';
+
+const SERVER = 900001;
+const CLIENT = 900002;
+const DNS = 900003;
+const PORT = 5432;
+
+const sockets: SocketInfo[] = [
+    { pid: SERVER, port: PORT, protocol: 'tcp', state: 'LISTEN' },
+    { pid: CLIENT, port: PORT, protocol: 'tcp', state: 'ESTABLISHED' },
+    { pid: DNS, port: PORT, protocol: 'udp' },
+];
+
+let backend: MemoryBackend;
+
+beforeEach(() => {
+    setLogger({ level: 'silent' });
+    backend = createMemoryBackend({
+        processes: [{ pid: SERVER, name: 'postgres' }, { pid: CLIENT, name: 'node' }, { pid: DNS, name: 'dnsmasq' }],
+        sockets,
+    });
+    setBackend(backend);
+});
+
+afterEach(() => {
+    setBackend(null);
+    setLogger({ level: 'info' });
+});
+
+describe('port queries', () => {
+    it('matches protocol and state, with UDP passing any state', () => {
+        const [listen, established, udp] = sockets;
+
+        expect(matchesPortQuery(listen, {})).toBe(true);
+        expect(matchesPortQuery(listen, { state: 'listen' })).toBe(true);
+        expect(matchesPortQuery(established, { state: 'listen' })).toBe(false);
+        expect(matchesPortQuery(established, { state: 'established' })).toBe(true);
+        expect(matchesPortQuery(udp, { state: 'listen' })).toBe(true);
+        expect(matchesPortQuery(udp, { protocol: 'tcp' })).toBe(false);
+    });
+
+    it('rejects unknown protocols and states', () => {
+        expect(() => validatePortQuery({ protocol: 'tcp', state: 'any' })).not.toThrow();
+        expect(() => validatePortQuery({ protocol: 'sctp' as 'tcp' })).toThrow(InvalidInputError);
+        expect(() => validatePortQuery({ state: 'LISTEN' as 'listen' })).toThrow(InvalidInputError);
+    });
+
+    it('filters findPidsByPort by protocol and state', async () => {
+        expect((await findPidsByPort(PORT)).sort()).toEqual([SERVER, CLIENT, DNS]);
+        expect(await findPidsByPort(PORT, undefined, { protocol: 'tcp', state: 'listen' })).toEqual([SERVER]);
+        expect(await findPidsByPort(PORT, undefined, { state: 'established' })).toEqual([CLIENT, DNS]);
+        expect(await findPidsByPort(PORT, undefined, { protocol: 'udp' })).toEqual([DNS]);
+        await expect(findPidsByPort(PORT, undefined, { state: 'closed' as 'any' })).rejects.toBeInstanceOf(InvalidInputError);
+    });
+});
+
+describe('killByPort', () => {
+    it('only targets TCP listeners by default', async () => {
+        const result = await killByPort(PORT);
+
+        expect(result).toMatchObject({ pid: SERVER, success: true, port: PORT });
+        expect(backend.signals.map(s => s.pid)).toEqual([SERVER]);
+    });
+
+    it('kills a UDP server when asked to', async () => {
+        expect(await killByPort(PORT, { protocol: 'udp' })).toMatchObject({ pid: DNS, success: true });
+    });
+
+    it('does not fall back to connected clients', async () => {
+        backend.removeProcess(SERVER);
+
+        await expect(killByPort(PORT)).rejects.toBeInstanceOf(ProcessNotFoundError);
+        expect(backend.signals).toEqual([]);
+    });
+});
+
+describe('socket table', () => {
+    const countListings = () => {
+        const calls = { count: 0 };
+        const listSockets = backend.listSockets.bind(backend);
+        backend.listSockets = (...args) => {
+            calls.count++;
+            return listSockets(...args);
+        };
+        return calls;
+    };
+
+    it('groups sockets by local port from one listing', async () => {
+        backend.addSocket({ pid: CLIENT, port: 3001, protocol: 'tcp', state: 'LISTEN' });
+        const listings = countListings();
+
+        const table = await getSocketTable(undefined, { state: 'listen' });
+        await findPidsByPort(PORT);
+        await findPidsByPort(3001);
+
+        expect([...table.keys()].sort()).toEqual([3001, PORT]);
+        expect(table.get(PORT)!.map(s => s.pid)).toEqual([SERVER, DNS]);
+        expect(listings.count).toBe(1);
+    });
+
+    it('kills the listeners of a port range with one listing and tags each port', async () => {
+        backend.addProcess({ pid: 900004, name: 'vite' });
+        backend.addSocket({ pid: 900004, port: 5433, protocol: 'tcp', state: 'LISTEN' });
+        const listings = countListings();
+
+        const results = await killByPortRange(5400, 5500);
+
+        expect(results.map(r => [r.pid, r.port]).sort()).toEqual([[SERVER, PORT], [900004, 5433]]);
+        expect(listings.count).toBe(1);
+        expect(backend.signals.map(s => s.pid)).not.toContain(CLIENT);
+    });
+
+    it('reports invalid ports of a batch only when nothing was found', async () => {
+        expect(await killByPorts([PORT, 70000])).toEqual([expect.objectContaining({ pid: SERVER, port: PORT })]);
+        await expect(killByPorts([4000, 70000])).rejects.toThrow(/Port 70000: Invalid port number/);
+    });
+
+    it('rejects invalid ranges', async () => {
+        await expect(killByPortRange(3010, 3000)).rejects.toBeInstanceOf(InvalidInputError);
+        await expect(killByPortRange(0, 10)).rejects.toBeInstanceOf(InvalidInputError);
+        await expect(killByPorts([])).rejects.toBeInstanceOf(InvalidInputError);
+    });
+});
+
+describe('getProcessInfo', () => {
+    it('reads cwd and exe only when asked for them', async () => {
+        const requested: number[] = [];
+        backend.getProcessPaths = async (pid) => {
+            requested.push(pid);
+            return { cwd: '/srv/db', exe: '/usr/lib/postgresql/16/bin/postgres' };
+        };
+
+        const plain = await getProcessInfo(SERVER);
+        expect(plain).toMatchObject({ pid: SERVER, name: 'postgres', ports: [PORT] });
+        expect(plain.cwd).toBeUndefined();
+        expect(requested).toEqual([]);
+
+        const withCwd = await getProcessInfo(SERVER, { cwd: true });
+        expect(withCwd.cwd).toBe('/srv/db');
+        expect(withCwd.exe).toBeUndefined();
+        expect(await getProcessInfo(SERVER, { cwd: true, exe: true })).toMatchObject({
+            cwd: '/srv/db',
+            exe: '/usr/lib/postgresql/16/bin/postgres',
+        });
+    });
+
+    it('throws ProcessNotFoundError for a missing PID', async () => {
+        await expect(getProcessInfo(900099)).rejects.toBeInstanceOf(ProcessNotFoundError);
+        await expect(getProcessInfo(-1)).rejects.toBeInstanceOf(InvalidInputError);
+    });
+});
+
+describe('findPidsByCwd', () => {
+    beforeEach(() => {
+        backend.addProcess({ pid: 900011, name: 'vite', cwd: '/srv/app' });
+        backend.addProcess({ pid: 900012, name: 'tsc', cwd: '/srv/app/packages/web' });
+        backend.addProcess({ pid: 900013, name: 'vite', cwd: '/srv/app2' });
+    });
+
+    it('matches subdirectories unless recursive is false', async () => {
+        expect(await findPidsByCwd('/srv/app')).toEqual([900011, 900012]);
+        expect(await findPidsByCwd('/srv/app/', { recursive: false })).toEqual([900011]);
+        expect(await findPidsByCwd('/srv/app/../app/packages')).toEqual([900012]);
+    });
+
+    it('prefers the backend\'s one-pass listing', async () => {
+        backend.listWorkingDirectories = async () => new Map([[SERVER, '/var/lib/postgresql']]);
+
+        expect(await findPidsByCwd('/var/lib')).toEqual([SERVER]);
+        expect(await findPidsByCwd('/srv/app')).toEqual([]);
+    });
+
+    it('rejects an empty directory', async () => {
+        await expect(findPidsByCwd('')).rejects.toBeInstanceOf(InvalidInputError);
+    });
+});
+
+describe('file holders', () => {
+    beforeEach(() => {
+        backend.addOpenFile({ pid: SERVER, fd: 7, path: '/var/lib/db/data.lock', mode: 'readwrite' });
+        backend.addOpenFile({ pid: SERVER, fd: 'cwd', path: '/var/lib/db' });
+        backend.addOpenFile({ pid: CLIENT, fd: 3, path: '/var/lib/db/data.lock', mode: 'read' });
+        backend.addOpenFile({ pid: DNS, fd: 4, path: '/var/lib/db2/cache', mode: 'read' });
+    });
+
+    it('reports each holder with descriptor and mode', async () => {
+        expect(await findFileHolders('/var/lib/db/data.lock')).toEqual([
+            { pid: SERVER, fd: 7, path: '/var/lib/db/data.lock', mode: 'readwrite' },
+            { pid: CLIENT, fd: 3, path: '/var/lib/db/data.lock', mode: 'read' },
+        ]);
+    });
+
+    it('matches everything below a directory only when recursive', async () => {
+        expect(await findPidsByFile('/var/lib/db')).toEqual([SERVER]);
+        expect(await findPidsByFile('/var/lib/db', { recursive: true })).toEqual([SERVER, CLIENT]);
+    });
+
+    it('kills the holders and tags results with the file', async () => {
+        const results = await killByFile('/var/lib/db/data.lock');
+
+        expect(results.map(r => r.pid).sort()).toEqual([SERVER, CLIENT]);
+        expect(results.every(r => r.success && r.file === '/var/lib/db/data.lock')).toBe(true);
+        await expect(killByFile('/var/lib/db/data.lock')).rejects.toBeInstanceOf(ProcessNotFoundError);
+    });
+
+    it('is rejected on backends that cannot list open files', async () => {
+        setBackend({ ...backend, listOpenFiles: undefined });
+
+        await expect(findFileHolders('/var/lib/db')).rejects.toBeInstanceOf(InvalidInputError);
+    });
+});
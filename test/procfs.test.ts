@@ -0,0 +1,125 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+    derivePageSize,
+    hasProcfs,
+    parseFdMode,
+    parseKernelPageSize,
+    parseNetSockets,
+    parseProcStat,
+    procGetProcess,
+    procIsAlive,
+    readProcStat,
+} from '../src/procfs';
+
+describe('page size', () => {
+    it('reads KernelPageSize from the first smaps block', () => {
+        const smaps = [
+            '00400000-00452000 r-xp 00000000 08:02 173521      /usr/bin/node',
+            'Size:                328 kB',
+            'KernelPageSize:       64 kB',
+            'MMUPageSize:          64 kB',
+            '7f00000000-7f00200000 rw-p 00000000 00:00 0',
+            'KernelPageSize:     2048 kB',
+        ].join('\n');
+
+        expect(parseKernelPageSize(smaps)).toBe(65536);
+        expect(parseKernelPageSize('Size: 4 kB\n')).toBeNull();
+    });
+
+    it('derives the page size from statm and status', () => {
+        const status = 'Name:\tnode\nVmPeak:\t 1100000 kB\nVmSize:\t 1048576 kB\nVmRSS:\t   51200 kB\n';
+
+        expect(derivePageSize('262144 12800 3000 20 0 50000 0\n', status)).toBe(4096);
+        expect(derivePageSize('16384 800 200 2 0 3000 0\n', status)).toBe(65536);
+        // VmSize grew a little between the two reads
+        expect(derivePageSize('262100 12800 3000 20 0 50000 0\n', status)).toBe(4096);
+        expect(derivePageSize('', status)).toBeNull();
+        expect(derivePageSize('262144 1 1 1 0 1 0', 'Name:\tnode\n')).toBeNull();
+    });
+
+    it.runIf(hasProcfs)('matches VmRSS of the current process', async () => {
+        const info = await procGetProcess(process.pid);
+        const vmRssKb = Number(readFileSync('/proc/self/status', 'utf8').match(/^VmRSS:\s+(\d+)/m)![1]);
+
+        // RSS moves between the two reads; a wrong page size would be off by 4x or more
+        expect(info!.memoryBytes! / (vmRssKb * 1024)).toBeGreaterThan(0.5);
+        expect(info!.memoryBytes! / (vmRssKb * 1024)).toBeLessThan(2);
+    });
+});
+
+describe('stat', () => {
+    it('splits on the last parenthesis so comm may contain spaces and parentheses', () => {
+        const text = '1234 (my (weird) name) S 1 1234 1234 0 -1 4194560 1000 0 0 0 150 50 0 0 20 0 7 0 123456 1073741824 12800 18446744073709551615\n';
+
+        expect(parseProcStat(1234, text)).toEqual({
+            pid: 1234,
+            comm: 'my (weird) name',
+            state: 'S',
+            ppid: 1,
+            pgrp: 1234,
+            session: 1234,
+            utime: 150,
+            stime: 50,
+            numThreads: 7,
+            starttime: 123456,
+            vsize: 1073741824,
+            rss: 12800,
+        });
+    });
+
+    it('rejects a line without comm', () => {
+        expect(parseProcStat(1, '')).toBeNull();
+        expect(parseProcStat(1, '1 ) S (init')).toBeNull();
+    });
+
+    it.runIf(hasProcfs)('reads the current process', async () => {
+        const stat = await readProcStat(process.pid);
+
+        expect(stat).toMatchObject({ pid: process.pid, ppid: process.ppid });
+        expect(await procIsAlive(process.pid)).toBe(true);
+        expect(await readProcStat(2 ** 22 + 1)).toBeNull();
+    });
+});
+
+describe('socket tables', () => {
+    const header = '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+    it('reads the local port, state and inode of TCP sockets', () => {
+        const text = [
+            header,
+            '   0: 0100007F:0BB8 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 12345 1 0000000000000000 100 0 0 10 0',
+            '   1: 0100007F:0BB8 0100007F:D431 01 00000000:00000000 00:00000000 00000000  1000        0 12346 1 0000000000000000 20 4 30 10 -1',
+            '   2: 0100007F:1F90 0100007F:D432 0C 00000000:00000000 00:00000000 00000000  1000        0 0 1 0000000000000000 20 4 30 10 -1',
+            '',
+        ].join('\n');
+
+        expect(parseNetSockets(text, 'tcp')).toEqual([
+            { port: 3000, protocol: 'tcp', state: 'LISTEN', inode: 12345 },
+            { port: 3000, protocol: 'tcp', state: 'ESTABLISHED', inode: 12346 },
+            // Unknown codes are passed through
+            { port: 8080, protocol: 'tcp', state: '0C', inode: 0 },
+        ]);
+    });
+
+    it('reads IPv6 addresses and leaves UDP without a state', () => {
+        const text = [
+            header,
+            '   0: 00000000000000000000000000000000:1F90 00000000000000000000000000000000:0000 07 00000000:00000000 00:00000000 00000000  1000        0 54321 2 0000000000000000 0',
+        ].join('\n');
+
+        expect(parseNetSockets(text, 'udp')).toEqual([{ port: 8080, protocol: 'udp', state: undefined, inode: 54321 }]);
+        expect(parseNetSockets(header, 'tcp')).toEqual([]);
+    });
+});
+
+describe('fdinfo', () => {
+    it('reads the access mode from the octal flags', () => {
+        const fdinfo = (flags: string) => `pos:\t0\nflags:\t${flags}\nmnt_id:\t29\nino:\t1234\n`;
+
+        expect(parseFdMode(fdinfo('0100000'))).toBe('read');
+        expect(parseFdMode(fdinfo('02100001'))).toBe('write');
+        expect(parseFdMode(fdinfo('0102002'))).toBe('readwrite');
+        expect(parseFdMode('pos:\t0\n')).toBeUndefined();
+    });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    createMemoryBackend,
+    findPids,
+    findProcesses,
+    InvalidInputError,
+    killWhere,
+    ProcessNotFoundError,
+    setBackend,
+    setLogger,
+} from '../src';
+import type { MemoryBackend, ProcessInfo } from '../src';
+import { buildProcessFilter } from '../src/query';
+
+const HOUR = 60 * 60 * 1000;
+const GB = 1024 ** 3;
+
+const WATCHER = 900001;
+const SERVER = 900002;
+const SHELL = 900003;
+const WORKER = 900004;
+
+const processes: ProcessInfo[] = [
+    {
+        pid: WATCHER, parentPid: SHELL, name: 'node', command: 'node webpack --watch', user: 'dev', uid: 1000,
+        startTime: Date.now() - 30 * HOUR, cpuPercent: 3, memoryBytes: 2 * GB,
+    },
+    {
+        pid: SERVER, parentPid: SHELL, name: 'node', command: 'node server.js', user: 'dev', uid: 1000,
+        startTime: Date.now() - HOUR, cpuPercent: 85, memoryBytes: GB / 2,
+    },
+    { pid: SHELL, parentPid: 1, name: 'bash', command: '-bash', user: 'dev', uid: 1000, startTime: Date.now() - 48 * HOUR },
+    { pid: WORKER, parentPid: 1, name: 'python3', command: 'python3 worker.py', user: 'ci', uid: 1001 },
+];
+
+let backend: MemoryBackend;
+
+beforeEach(() => {
+    setLogger({ level: 'silent' });
+    backend = createMemoryBackend({
+        processes,
+        sockets: [
+            { pid: SERVER, port: 3000, protocol: 'tcp', state: 'LISTEN' },
+            { pid: WATCHER, port: 3000, protocol: 'tcp', state: 'ESTABLISHED' },
+        ],
+    });
+    setBackend(backend);
+});
+
+afterEach(() => {
+    setBackend(null);
+    setLogger({ level: 'info' });
+});
+
+describe('buildProcessFilter', () => {
+    const select = (query: Parameters<typeof buildProcessFilter>[0]) =>
+        processes.filter(buildProcessFilter(query)).map(p => p.pid);
+
+    it('requires every criterion to match', () => {
+        expect(select({ name: 'NODE' })).toEqual([WATCHER, SERVER]);
+        expect(select({ name: 'node', minAgeMs: 24 * HOUR })).toEqual([WATCHER]);
+        expect(select({ command: /webpack.*--watch/g })).toEqual([WATCHER]);
+        expect(select({ user: 1001 })).toEqual([WORKER]);
+        expect(select({ user: 'dev', parentPid: SHELL, minCpuPercent: 50 })).toEqual([SERVER]);
+        expect(select({ minMemoryBytes: GB })).toEqual([WATCHER]);
+    });
+
+    it('leaves out processes missing a measured field', () => {
+        // WORKER reports no start time, CPU or memory
+        expect(select({ minAgeMs: 0 })).not.toContain(WORKER);
+        expect(select({ minCpuPercent: 0 })).toEqual([WATCHER, SERVER]);
+    });
+
+    it('rejects empty and invalid queries', () => {
+        expect(() => buildProcessFilter({})).toThrow(InvalidInputError);
+        expect(() => buildProcessFilter({ name: undefined })).toThrow(InvalidInputError);
+        expect(() => buildProcessFilter({ minAgeMs: -1 })).toThrow(InvalidInputError);
+        expect(() => buildProcessFilter({ minCpuPercent: NaN })).toThrow(InvalidInputError);
+    });
+});
+
+describe('findPids / findProcesses', () => {
+    it('only counts listeners for the port criterion', async () => {
+        expect(await findPids({ port: 3000 })).toEqual([SERVER]);
+        expect(await findPids({ port: 3000, minMemoryBytes: GB })).toEqual([]);
+        expect(await findPids({ port: 4000 })).toEqual([]);
+    });
+
+    it('returns the matching process details', async () => {
+        const [shell] = await findProcesses({ name: 'bash' });
+
+        expect(shell).toMatchObject({ pid: SHELL, user: 'dev' });
+    });
+});
+
+describe('killWhere', () => {
+    it('kills the matches and tags results with the query', async () => {
+        const query = { name: 'node', minAgeMs: 24 * HOUR };
+
+        const results = await killWhere(query);
+
+        expect(results).toEqual([expect.objectContaining({ pid: WATCHER, success: true, query })]);
+        expect(backend.signals.map(s => s.pid)).toEqual([WATCHER]);
+    });
+
+    it('throws ProcessNotFoundError when nothing matches', async () => {
+        await expect(killWhere({ name: 'ruby' })).rejects.toBeInstanceOf(ProcessNotFoundError);
+        expect(backend.signals).toEqual([]);
+    });
+
+    it('does not kill the current process', async () => {
+        backend.addProcess({ pid: process.pid, name: 'node', command: 'node vitest', user: 'dev', uid: 1000 });
+
+        const results = await killWhere({ command: 'node vitest' }).catch(e => e);
+
+        expect(results).toBeInstanceOf(ProcessNotFoundError);
+        expect(backend.signals).toEqual([]);
+    });
+});
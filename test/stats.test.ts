@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AbortError, createMemoryBackend, getProcessStats, InvalidInputError, ProcessNotFoundError, setBackend } from '../src';
+import type { MemoryBackend, ProcessInfo } from '../src';
+
+const BUSY = 900001;
+const IDLE = 900002;
+
+const busy: ProcessInfo = {
+    pid: BUSY,
+    name: 'node',
+    startTime: 1_700_000_000_000,
+    cpuTimeMs: 10_000,
+    cpuPercent: 12,
+    memoryBytes: 50 * 1024 ** 2,
+    virtualBytes: 900 * 1024 ** 2,
+    threads: 11,
+    fdCount: 24,
+};
+
+const use = (processes: ProcessInfo[]): MemoryBackend => {
+    const backend = createMemoryBackend({ processes });
+    setBackend(backend);
+    return backend;
+};
+
+afterEach(() => setBackend(null));
+
+describe('getProcessStats', () => {
+    it('reports the CPU used between the two readings', async () => {
+        const backend = use([busy]);
+        // Burns 100ms of CPU time while being sampled for ~200ms
+        setTimeout(() => backend.addProcess({ ...busy, cpuTimeMs: busy.cpuTimeMs! + 100 }), 50);
+
+        const stats = await getProcessStats(BUSY, { sampleMs: 200 });
+
+        expect(stats.cpuPercent).toBeGreaterThan(20);
+        expect(stats.cpuPercent).toBeLessThanOrEqual(50);
+        expect(stats).toMatchObject({
+            pid: BUSY,
+            rssBytes: busy.memoryBytes,
+            virtualBytes: busy.virtualBytes,
+            threads: 11,
+            fdCount: 24,
+            startTime: busy.startTime,
+        });
+    });
+
+    it('uses the lifetime average without sampling or after PID reuse', async () => {
+        const backend = use([busy]);
+
+        expect((await getProcessStats(BUSY, { sampleMs: 0 })).cpuPercent).toBe(12);
+
+        setTimeout(() => backend.addProcess({ ...busy, startTime: busy.startTime! + 60_000, cpuTimeMs: 5, cpuPercent: 3 }), 10);
+        expect((await getProcessStats(BUSY, { sampleMs: 50 })).cpuPercent).toBe(3);
+    });
+
+    it('returns stats in input order and skips missing processes for arrays', async () => {
+        use([busy, { pid: IDLE, name: 'sleep', cpuTimeMs: 0 }]);
+
+        const stats = await getProcessStats([IDLE, 999999, BUSY, IDLE], { sampleMs: 20 });
+
+        expect(stats.map(s => s.pid)).toEqual([IDLE, BUSY]);
+        expect(stats[0].cpuPercent).toBe(0);
+    });
+
+    it('throws for a missing single PID and for invalid input', async () => {
+        use([busy]);
+
+        await expect(getProcessStats(999999, { sampleMs: 0 })).rejects.toBeInstanceOf(ProcessNotFoundError);
+        await expect(getProcessStats(-1)).rejects.toBeInstanceOf(InvalidInputError);
+        await expect(getProcessStats(BUSY, { sampleMs: -5 })).rejects.toBeInstanceOf(InvalidInputError);
+    });
+
+    it('stops sampling when aborted', async () => {
+        use([busy]);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+
+        await expect(getProcessStats(BUSY, { sampleMs: 5000, abortSignal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    });
+});
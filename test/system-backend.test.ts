@@ -0,0 +1,250 @@
+import { describe, expect, it } from 'vitest';
+import {
+    fromWin32Process,
+    parseEtime,
+    parseLsofCwds,
+    parseLsofOpenFiles,
+    parseLsofOutput,
+    parseLsofPaths,
+    parseNetstatOutput,
+    parsePsOutput,
+} from '../src/system-backend';
+import { parseProcessState } from '../src/utils';
+
+describe('lsof -i output', () => {
+    it('reads protocol, local port and TCP state', () => {
+        const out = [
+            'COMMAND   PID USER   FD   TYPE             DEVICE SIZE/OFF NODE NAME',
+            'postgres 4242 pg     5u  IPv4 0xa1b2c3d4e5f60001      0t0  TCP 127.0.0.1:5432 (LISTEN)',
+            'node     1234 me    22u  IPv4 0xa1b2c3d4e5f60002      0t0  TCP 127.0.0.1:53012->127.0.0.1:5432 (ESTABLISHED)',
+            'node     1234 me    23u  IPv6 0xa1b2c3d4e5f60003      0t0  TCP [::1]:3000 (LISTEN)',
+            'mDNSResp  321 root  7u  IPv4 0xa1b2c3d4e5f60004      0t0  UDP *:5353',
+            '',
+        ].join('\n');
+
+        expect(parseLsofOutput(out)).toEqual([
+            { pid: 4242, port: 5432, protocol: 'tcp', state: 'LISTEN' },
+            // The local end of an outbound connection, not the remote 5432
+            { pid: 1234, port: 53012, protocol: 'tcp', state: 'ESTABLISHED' },
+            { pid: 1234, port: 3000, protocol: 'tcp', state: 'LISTEN' },
+            { pid: 321, port: 5353, protocol: 'udp', state: undefined },
+        ]);
+    });
+
+    it('skips the header and lines without a port', () => {
+        const out = [
+            'COMMAND PID USER FD TYPE DEVICE SIZE/OFF NODE NAME',
+            'node 1234 me 24u IPv4 0xa1b2c3d4e5f60005 0t0 TCP *:* (CLOSED)',
+            'node 1234 me 25u unix 0xa1b2c3d4e5f60006 0t0 /tmp/app.sock',
+        ].join('\n');
+
+        expect(parseLsofOutput(out)).toEqual([]);
+    });
+});
+
+describe('netstat -ano output', () => {
+    it('reads TCP and UDP sockets, IPv4 and IPv6', () => {
+        const out = [
+            '',
+            'Active Connections',
+            '',
+            '  Proto  Local Address          Foreign Address        State           PID',
+            '  TCP    0.0.0.0:3000           0.0.0.0:0              LISTENING       1234',
+            '  TCP    127.0.0.1:53012        127.0.0.1:5432         ESTABLISHED     5678',
+            '  TCP    [::]:3000              [::]:0                 LISTENING       1234',
+            '  UDP    0.0.0.0:5353           *:*                                    4321',
+            '  TCP    0.0.0.0:445            0.0.0.0:0              LISTENING       0',
+        ].join('\r\n');
+
+        expect(parseNetstatOutput(out)).toEqual([
+            { pid: 1234, port: 3000, protocol: 'tcp', state: 'LISTEN' },
+            { pid: 5678, port: 53012, protocol: 'tcp', state: 'ESTABLISHED' },
+            { pid: 1234, port: 3000, protocol: 'tcp', state: 'LISTEN' },
+            { pid: 4321, port: 5353, protocol: 'udp', state: undefined },
+        ]);
+    });
+});
+
+describe('ps output', () => {
+    it('parses elapsed and CPU times', () => {
+        expect(parseEtime('03:15')).toBe(195);
+        expect(parseEtime('02:03:04')).toBe(7384);
+        expect(parseEtime('01-02:03:04')).toBe(93784);
+        expect(parseEtime('0:00.50')).toBe(0.5);
+    });
+
+    it('reads owner, state, times and sizes', () => {
+        const out = [
+            ' 1234     1  1234  1234 dev       1000 Ss   01-02:03:04 00:01:30  2.5  1.2 51200 1048576 node            node server.js --port 3000',
+            '    2     0     0     0 root         0 S    10-00:00:00 00:00:00  0.0  0.0     0       0 kthreadd',
+            'garbage line',
+        ].join('\n');
+        const before = Date.now();
+
+        const [node, kthread, ...rest] = parsePsOutput(out);
+
+        expect(rest).toEqual([]);
+        expect(node).toMatchObject({
+            pid: 1234,
+            parentPid: 1,
+            pgid: 1234,
+            sessionId: 1234,
+            user: 'dev',
+            uid: 1000,
+            state: 'sleeping',
+            elapsedMs: 93784000,
+            cpuTimeMs: 90000,
+            cpuPercent: 2.5,
+            cpuUsage: '2.5%',
+            memoryUsage: '1.2%',
+            memoryBytes: 51200 * 1024,
+            virtualBytes: 1048576 * 1024,
+            name: 'node',
+            command: 'node server.js --port 3000',
+        });
+        expect(node.startTime! + 93784000).toBeGreaterThanOrEqual(before);
+        expect(node.startTime! + 93784000).toBeLessThanOrEqual(Date.now());
+        // Kernel threads have no arguments
+        expect(kthread).toMatchObject({ pid: 2, command: 'kthreadd', uid: 0 });
+    });
+
+    it('drops the kernel address macOS prints for sess', () => {
+        const [info] = parsePsOutput('  321     1   321 0xa1b2c3 root   0 Ss      03:15  0:00.50  0.0  0.1  4096  409600 syslogd /usr/sbin/syslogd\n');
+
+        expect(info).toMatchObject({ pid: 321, cpuTimeMs: 500, elapsedMs: 195000 });
+        expect(info.sessionId).toBeUndefined();
+    });
+
+    it('maps state codes by their first letter', () => {
+        expect(['R+', 'S', 'Ss', 'D', 'I<', 'U', 'T', 't', 'Z', 'X'].map(parseProcessState)).toEqual([
+            'running', 'sleeping', 'sleeping', 'sleeping', 'sleeping', 'sleeping', 'stopped', 'stopped', 'zombie', undefined,
+        ]);
+    });
+});
+
+describe('lsof cwd/txt output', () => {
+    it('takes the first txt entry as the executable', () => {
+        const out = ['p1234', 'fcwd', 'n/srv/app', 'ftxt', 'n/usr/bin/node', 'ftxt', 'n/usr/lib/libc.so.6', ''].join('\n');
+
+        expect(parseLsofPaths(out)).toEqual({ cwd: '/srv/app', exe: '/usr/bin/node' });
+        expect(parseLsofPaths('p1234\n')).toEqual({});
+    });
+});
+
+describe('lsof -d cwd output', () => {
+    it('maps each PID to its cwd and skips unreadable entries', () => {
+        const out = [
+            'p1',
+            'n/proc/1/cwd (readlink: Permission denied)',
+            'p1234',
+            'n/srv/app',
+            'p5678',
+            'n/home/dev/my project',
+            'p910',
+            'n/proc/910/cwd (stat: No such file or directory)',
+            '',
+        ].join('\n');
+
+        expect(parseLsofCwds(out)).toEqual(new Map([[1234, '/srv/app'], [5678, '/home/dev/my project']]));
+    });
+});
+
+describe('lsof -Fpfan output', () => {
+    it('reads descriptor, access mode and path of each holder', () => {
+        const out = [
+            'p1234',
+            'fcwd',
+            'a ',
+            'n/srv/app',
+            'f12',
+            'aw',
+            'n/srv/app/server.log',
+            'f13',
+            'au',
+            'n/srv/app/db.sqlite',
+            'p5678',
+            'ftxt',
+            'a ',
+            'n/srv/app/bin/tool',
+            'frtd',
+            'n/srv/app',
+            'f3',
+            'ar',
+            'n/srv/app/config.json',
+            '',
+        ].join('\n');
+
+        expect(parseLsofOpenFiles(out)).toEqual([
+            { pid: 1234, fd: 'cwd', path: '/srv/app', mode: undefined },
+            { pid: 1234, fd: 12, path: '/srv/app/server.log', mode: 'write' },
+            { pid: 1234, fd: 13, path: '/srv/app/db.sqlite', mode: 'readwrite' },
+            { pid: 5678, fd: 'exe', path: '/srv/app/bin/tool', mode: undefined },
+            { pid: 5678, fd: 'root', path: '/srv/app', mode: undefined },
+            { pid: 5678, fd: 3, path: '/srv/app/config.json', mode: 'read' },
+        ]);
+    });
+
+    it('ignores names before the first process', () => {
+        expect(parseLsofOpenFiles('f3\nn/tmp/x\n')).toEqual([]);
+    });
+});
+
+describe('Win32_Process records', () => {
+    it('reads Windows PowerShell output with /Date()/ and string counters', () => {
+        const info = fromWin32Process({
+            ProcessId: 1234,
+            Name: 'node.exe',
+            CommandLine: 'node server.js',
+            ParentProcessId: 4,
+            WorkingSetSize: '52428800',
+            CreationDate: '/Date(1700000000000)/',
+            VirtualSize: 2199023255552,
+            ThreadCount: 11,
+            HandleCount: '250',
+            KernelModeTime: '1500000',
+            UserModeTime: 8500000,
+        });
+
+        expect(info).toMatchObject({
+            pid: 1234,
+            name: 'node.exe',
+            command: 'node server.js',
+            parentPid: 4,
+            memoryBytes: 52428800,
+            memoryUsage: '50 MB',
+            virtualBytes: 2199023255552,
+            threads: 11,
+            fdCount: 250,
+            cpuTimeMs: 1000,
+            startTime: 1700000000000,
+        });
+        expect(info!.elapsedMs).toBeGreaterThan(0);
+    });
+
+    it('reads PowerShell 7 ISO dates and tolerates nulls', () => {
+        const info = fromWin32Process({
+            ProcessId: 4,
+            Name: 'System',
+            CommandLine: null,
+            ParentProcessId: 0,
+            WorkingSetSize: null,
+            CreationDate: '2023-11-14T22:13:20.000Z',
+            KernelModeTime: '',
+        });
+
+        expect(info).toEqual({
+            pid: 4,
+            name: 'System',
+            command: undefined,
+            parentPid: undefined,
+            startTime: 1700000000000,
+            elapsedMs: expect.any(Number),
+        });
+    });
+
+    it('skips records without a valid ProcessId', () => {
+        expect(fromWin32Process({ Name: 'ghost' })).toBeNull();
+        expect(fromWin32Process({ ProcessId: -1 })).toBeNull();
+        expect(fromWin32Process({ ProcessId: '12.5' as unknown as number })).toBeNull();
+    });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    AbortError,
+    createMemoryBackend,
+    InvalidInputError,
+    killByPort,
+    setBackend,
+    setLogger,
+    TimeoutError,
+    waitForPortFree,
+    waitForPortInUse,
+} from '../src';
+import type { MemoryBackend } from '../src';
+
+const SERVER = 900001;
+const CLIENT = 900002;
+const PORT = 3000;
+
+let backend: MemoryBackend;
+
+beforeEach(() => {
+    setLogger({ level: 'silent' });
+    backend = createMemoryBackend({ processes: [{ pid: SERVER, name: 'server' }, { pid: CLIENT, name: 'client' }] });
+    setBackend(backend);
+});
+
+afterEach(() => {
+    setBackend(null);
+    setLogger({ level: 'info' });
+});
+
+const listen = (pid: number) => backend.addSocket({ pid, port: PORT, protocol: 'tcp', state: 'LISTEN' });
+
+describe('waitForPortInUse', () => {
+    it('resolves with the PIDs once the port is bound', async () => {
+        setTimeout(() => listen(SERVER), 30);
+
+        expect(await waitForPortInUse(PORT, { intervalMs: 10 })).toEqual([SERVER]);
+    });
+
+    it('ignores sockets outside the state filter', async () => {
+        backend.addSocket({ pid: CLIENT, port: PORT, protocol: 'tcp', state: 'ESTABLISHED' });
+        setTimeout(() => listen(SERVER), 30);
+
+        expect(await waitForPortInUse(PORT, { intervalMs: 10, state: 'listen' })).toEqual([SERVER]);
+    });
+
+    it('rejects with TimeoutError when nothing binds in time', async () => {
+        const started = Date.now();
+
+        await expect(waitForPortInUse(PORT, { timeoutMs: 50, intervalMs: 10 })).rejects.toBeInstanceOf(TimeoutError);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+});
+
+describe('waitForPortFree', () => {
+    it('resolves once the holder exits, bypassing the cache', async () => {
+        listen(SERVER);
+        setTimeout(() => backend.removeProcess(SERVER), 30);
+
+        await expect(waitForPortFree(PORT, { intervalMs: 10 })).resolves.toBeUndefined();
+    });
+
+    it('only gives each lookup the time left', async () => {
+        listen(SERVER);
+        const timeouts: Array<number | undefined> = [];
+        const listSockets = backend.listSockets.bind(backend);
+        backend.listSockets = (query, timeoutMs, abortSignal) => {
+            timeouts.push(timeoutMs);
+            return listSockets(query, timeoutMs, abortSignal);
+        };
+
+        await expect(waitForPortFree(PORT, { timeoutMs: 100, intervalMs: 20 })).rejects.toThrow(`Port ${PORT} was not free after 100 ms`);
+        expect(timeouts.length).toBeGreaterThan(1);
+        expect(timeouts.every(t => t !== undefined && t >= 1 && t <= 100)).toBe(true);
+        expect(timeouts[timeouts.length - 1]).toBeLessThan(timeouts[0]!);
+    });
+
+    it('stops on abort', async () => {
+        listen(SERVER);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 30);
+
+        await expect(waitForPortFree(PORT, { intervalMs: 10, abortSignal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it('rejects invalid input', async () => {
+        await expect(waitForPortFree(0)).rejects.toBeInstanceOf(InvalidInputError);
+        await expect(waitForPortFree(PORT, { protocol: 'icmp' as 'tcp' })).rejects.toBeInstanceOf(InvalidInputError);
+    });
+});
+
+describe('killByPort with waitForRelease', () => {
+    it('only reports success once the port is free', async () => {
+        const socket = { pid: SERVER, port: PORT, protocol: 'tcp' as const, state: 'LISTEN' };
+        // The socket lingers a moment after the process exits
+        const memory = createMemoryBackend({
+            processes: [{ pid: SERVER, name: 'server' }],
+            sockets: [socket],
+            onSignal: pid => {
+                queueMicrotask(() => memory.addSocket(socket));
+                setTimeout(() => memory.removeProcess(pid), 50);
+                return true;
+            },
+        });
+        setBackend(memory);
+        const started = Date.now();
+
+        const result = await killByPort(PORT, { waitForRelease: true });
+
+        expect(result).toMatchObject({ pid: SERVER, success: true, port: PORT });
+        expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+        expect(await memory.listSockets({ port: PORT })).toEqual([]);
+    });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryBackend, InvalidInputError, setBackend, setLogger, watchPort, watchProcess } from '../src';
+import type { MemoryBackend, MemoryBackendOptions, WatchEvent } from '../src';
+
+const PID = 900001;
+const OTHER = 900002;
+const PORT = 3000;
+
+let backend: MemoryBackend;
+
+const use = (options: MemoryBackendOptions): MemoryBackend => {
+    backend = createMemoryBackend(options);
+    setBackend(backend);
+    return backend;
+};
+
+const collect = async <E extends WatchEvent>(watcher: AsyncIterable<E>): Promise<E[]> => {
+    const events: E[] = [];
+    for await (const event of watcher) events.push(event);
+    return events;
+};
+
+const onClose = (watcher: { once(event: 'close', listener: () => void): unknown }): Promise<void> =>
+    new Promise(resolve => watcher.once('close', resolve));
+
+beforeEach(() => {
+    setLogger({ level: 'silent' });
+});
+
+afterEach(() => {
+    setBackend(null);
+    setLogger({ level: 'info' });
+});
+
+describe('watchProcess', () => {
+    it('emits a single exit event and closes itself', async () => {
+        use({ processes: [{ pid: PID, name: 'sleeper' }] });
+        const watcher = watchProcess(PID, { intervalMs: 10 });
+        setTimeout(() => backend.removeProcess(PID), 30);
+
+        expect(await collect(watcher)).toEqual([{ type: 'exit', pid: PID }]);
+        expect(watcher.closed).toBe(true);
+    });
+
+    it('counts a new process reusing the PID as an exit', async () => {
+        use({ processes: [{ pid: PID, name: 'sleeper', startTime: 1_000_000 }] });
+        const watcher = watchProcess(PID, { intervalMs: 10 });
+        setTimeout(() => {
+            backend.removeProcess(PID);
+            backend.addProcess({ pid: PID, name: 'newcomer', startTime: 1_010_000 });
+        }, 30);
+
+        expect(await collect(watcher)).toEqual([{ type: 'exit', pid: PID }]);
+    });
+
+    it('rejects invalid input', () => {
+        expect(() => watchProcess(0)).toThrow(InvalidInputError);
+        expect(() => watchProcess(PID, { intervalMs: 0 })).toThrow(InvalidInputError);
+    });
+});
+
+describe('watchPort', () => {
+    it('reports bound holders, including existing ones, then the release', async () => {
+        use({
+            processes: [{ pid: PID, name: 'server' }, { pid: OTHER, name: 'worker' }],
+            sockets: [{ pid: PID, port: PORT, protocol: 'tcp', state: 'LISTEN' }],
+        });
+        const watcher = watchPort(PORT, { intervalMs: 10 });
+        const events: WatchEvent[] = [];
+        watcher.on('bound', event => {
+            events.push(event);
+            if (event.pid === PID) backend.addSocket({ pid: OTHER, port: PORT, protocol: 'tcp', state: 'LISTEN' });
+            else {
+                backend.removeProcess(PID);
+                backend.removeProcess(OTHER);
+            }
+        });
+        watcher.on('released', event => {
+            events.push(event);
+            watcher.close();
+        });
+
+        await onClose(watcher);
+
+        expect(events).toEqual([
+            { type: 'bound', port: PORT, pid: PID },
+            { type: 'bound', port: PORT, pid: OTHER },
+            { type: 'released', port: PORT },
+        ]);
+    });
+
+    it('only counts sockets matching the state filter', async () => {
+        use({
+            processes: [{ pid: PID, name: 'client' }, { pid: OTHER, name: 'server' }],
+            sockets: [{ pid: PID, port: PORT, protocol: 'tcp', state: 'ESTABLISHED' }],
+        });
+        const watcher = watchPort(PORT, { intervalMs: 10, state: 'listen' });
+        setTimeout(() => backend.addSocket({ pid: OTHER, port: PORT, protocol: 'tcp', state: 'LISTEN' }), 30);
+
+        const events: WatchEvent[] = [];
+        for await (const event of watcher) {
+            events.push(event);
+            break;
+        }
+
+        expect(events).toEqual([{ type: 'bound', port: PORT, pid: OTHER }]);
+        // Leaving the loop closes the watcher
+        expect(watcher.closed).toBe(true);
+    });
+
+    it('closes on abort and ends pending iterations', async () => {
+        use({ processes: [] });
+        const controller = new AbortController();
+        const watcher = watchPort(PORT, { intervalMs: 10, abortSignal: controller.signal });
+        setTimeout(() => controller.abort(), 30);
+
+        expect(await collect(watcher)).toEqual([]);
+        expect(watcher.closed).toBe(true);
+    });
+
+    it('emits close for a signal aborted before the call', async () => {
+        use({ processes: [] });
+        const watcher = watchPort(PORT, { abortSignal: AbortSignal.abort() });
+
+        await onClose(watcher);
+        expect(watcher.closed).toBe(true);
+    });
+
+    it('emits error for failed lookups and keeps polling', async () => {
+        let calls = 0;
+        const memory = use({ processes: [] });
+        const listSockets = memory.listSockets.bind(memory);
+        memory.listSockets = (...args) => {
+            calls++;
+            if (calls === 1) return Promise.reject(new Error('lsof failed'));
+            return listSockets(...args);
+        };
+        const watcher = watchPort(PORT, { intervalMs: 10 });
+        const error = await new Promise<Error>(resolve => watcher.once('error', resolve));
+
+        await new Promise(resolve => setTimeout(resolve, 30));
+        watcher.close();
+
+        expect(error.message).toBe('lsof failed');
+        expect(calls).toBeGreaterThan(1);
+    });
+
+    it('rejects invalid input', () => {
+        expect(() => watchPort(70000)).toThrow(InvalidInputError);
+        expect(() => watchPort(PORT, { state: 'bogus' as 'listen' })).toThrow(InvalidInputError);
+    });
+});